@@ -1,23 +1,52 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import Lobby from "@/pages/Lobby";
 import WaitingRoom from "@/pages/WaitingRoom";
 import MultiplayerGame from "@/pages/MultiplayerGame";
-import { GameRoom } from "@shared/schema";
+import Game from "@/pages/Game";
+import Replay from "@/pages/Replay";
+import { wsClient } from "@/lib/websocket";
+import { GameRoom, WSResponse } from "@shared/schema";
 
 type AppState = 
   | { stage: 'lobby' }
+  | { stage: 'offline' }
+  | { stage: 'replay'; roomCode: string }
   | { stage: 'waiting'; room: GameRoom; playerId: string }
   | { stage: 'playing'; room: GameRoom; playerId: string };
 
 function App() {
   const [state, setState] = useState<AppState>({ stage: 'lobby' });
+  // Set when the server no longer speaks this bundle's protocol version
+  const [reloadMessage, setReloadMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = wsClient.onMessage((message: WSResponse) => {
+      if (message.type === 'hello' && message.payload.status === 'reload') {
+        setReloadMessage(message.payload.message);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, []);
 
   const handleJoinedRoom = (room: GameRoom, playerId: string) => {
-    setState({ stage: 'waiting', room, playerId });
+    // A resumed session may drop us straight back into a running game
+    setState({ stage: room.gameState.started ? 'playing' : 'waiting', room, playerId });
   };
 
   const handleGameStart = (room: GameRoom) => {
@@ -30,12 +59,39 @@ function App() {
     setState({ stage: 'lobby' });
   };
 
+  const handleWatchReplay = (roomCode: string) => {
+    setState({ stage: 'replay', roomCode });
+  };
+
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
+        <AlertDialog open={reloadMessage !== null}>
+          <AlertDialogContent data-testid="dialog-reload">
+            <AlertDialogHeader>
+              <AlertDialogTitle>Update Required</AlertDialogTitle>
+              <AlertDialogDescription>{reloadMessage}</AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogAction onClick={() => window.location.reload()} data-testid="button-reload">
+                Reload
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
         {state.stage === 'lobby' && (
-          <Lobby onJoinedRoom={handleJoinedRoom} />
+          <Lobby
+            onJoinedRoom={handleJoinedRoom}
+            onPlayOffline={() => setState({ stage: 'offline' })}
+            onWatchReplay={handleWatchReplay}
+          />
+        )}
+        {state.stage === 'offline' && (
+          <Game onLeave={handleLeave} />
+        )}
+        {state.stage === 'replay' && (
+          <Replay roomCode={state.roomCode} onLeave={handleLeave} />
         )}
         {state.stage === 'waiting' && (
           <WaitingRoom 
@@ -50,6 +106,7 @@ function App() {
             initialRoom={state.room}
             playerId={state.playerId}
             onLeave={handleLeave}
+            onWatchReplay={handleWatchReplay}
           />
         )}
       </TooltipProvider>
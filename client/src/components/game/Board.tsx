@@ -3,8 +3,12 @@ import { cn } from '@/lib/utils';
 import { GamePiece, SAFE_SPOTS, getCoordinates } from '@/lib/ludo-logic';
 import { Piece } from './Piece';
 import { Dice } from './Dice';
+import { TurnCountdown } from './TurnCountdown';
 import { Star, Home } from 'lucide-react';
-import { GameMode } from '@shared/schema';
+import { AnimatePresence, motion } from 'framer-motion';
+import { EMOTE_ICONS } from '@/lib/emotes';
+import { Emote, GameMode, PlayerColor } from '@shared/schema';
+import { GAME_MODES } from '@shared/game-modes';
 
 interface BoardProps {
   pieces: GamePiece[];
@@ -17,7 +21,11 @@ interface BoardProps {
   isRolling?: boolean;
   onRollDice?: () => void;
   canRollDice?: boolean;
-  players?: Array<{ color: string | null; name: string }>;
+  players?: Array<{ colors: PlayerColor[]; name: string }>;
+  showStarSpots?: boolean; // Star cells are only safe under the standard safe-spot rule
+  emotes?: Partial<Record<PlayerColor, Emote>>; // Reaction currently shown over each base
+  turnDeadline?: number | null; // When the current player's time runs out
+  turnSeconds?: number;
 }
 
 export function Board({ 
@@ -30,9 +38,19 @@ export function Board({
   isRolling = false,
   onRollDice,
   canRollDice = false,
-  players = []
+  players = [],
+  showStarSpots = true,
+  emotes = {},
+  turnDeadline = null,
+  turnSeconds = 0
 }: BoardProps) {
-  
+  const { colors: modeColors, teams, shortLabel } = GAME_MODES[gameMode];
+  // Bases nobody sits at are dimmed; without seats (offline) every mode colour plays
+  const seatedColors = players.flatMap(p => p.colors);
+  const isInPlay = (color: PlayerColor) =>
+    seatedColors.length > 0 ? seatedColors.includes(color) : modeColors.includes(color);
+  const teamOf = (color: string) => (teams?.findIndex(team => team.includes(color as PlayerColor)) ?? -1) + 1;
+
   // Render enhanced base areas with Ludo King style
   const renderBase = (color: string, rowStart: number, colStart: number, isActive: boolean = true) => (
     <div 
@@ -81,12 +99,43 @@ export function Board({
           `bg-ludo-${color}`
         )} />
         
+        {/* Team badge, matching partners across the board */}
+        {isActive && teamOf(color) > 0 && (
+          <div
+            className="absolute bottom-2 left-2 px-2 py-0.5 rounded-full bg-white/90 text-slate-700 text-[10px] font-bold uppercase shadow"
+            data-testid={`badge-team-${color}`}
+          >
+            Team {teamOf(color)}
+          </div>
+        )}
+
         {/* Active player indicator */}
         {isActive && currentTurn === color && (
           <div className="absolute -top-2 -right-2 w-8 h-8 bg-yellow-400 rounded-full border-2 border-white shadow-lg flex items-center justify-center animate-pulse">
             <Star className="w-4 h-4 text-white fill-white" />
           </div>
         )}
+
+        {/* Turn timer */}
+        {isActive && currentTurn === color && turnDeadline && (
+          <TurnCountdown deadline={turnDeadline} seconds={turnSeconds} />
+        )}
+
+        {/* Emote reaction */}
+        <AnimatePresence>
+          {emotes[color as PlayerColor] && (
+            <motion.div
+              key={emotes[color as PlayerColor]}
+              initial={{ scale: 0, opacity: 0, y: 10 }}
+              animate={{ scale: 1, opacity: 1, y: 0 }}
+              exit={{ scale: 0.5, opacity: 0, y: -10 }}
+              className="absolute inset-0 flex items-center justify-center pointer-events-none z-20"
+              data-testid={`emote-${color}`}
+            >
+              <span className="text-5xl drop-shadow-lg">{EMOTE_ICONS[emotes[color as PlayerColor]!]}</span>
+            </motion.div>
+          )}
+        </AnimatePresence>
       </div>
     </div>
   );
@@ -250,11 +299,12 @@ export function Board({
         }
 
         // --- SAFE SPOTS (STARS) ---
-        const isSafeSpot = 
+        const isSafeSpot = showStarSpots && (
           (x === 6 && y === 2) || 
           (x === 12 && y === 6) || 
           (x === 8 && y === 12) || 
-          (x === 2 && y === 8);
+          (x === 2 && y === 8)
+        );
 
         if (isSafeSpot) {
           cellClass = 'bg-white border-2 border-gray-300 shadow-inner';
@@ -298,9 +348,7 @@ export function Board({
   // Render dice box for each player - always visible but only contains dice when it's their turn
   const renderDiceBox = (color: string, position: string) => {
     const isCurrentPlayer = currentTurn === color;
-    const shouldShow = gameMode === '4-player' || (gameMode === '2-player' && (color === 'red' || color === 'yellow'));
-    
-    if (!shouldShow) return null;
+    if (!isInPlay(color as PlayerColor)) return null;
 
     const positionClasses = {
       'left': 'absolute left-0 top-1/2 transform -translate-y-1/2 -translate-x-full -ml-2',
@@ -372,10 +420,10 @@ export function Board({
           }}
         >
           {/* All four bases - always visible */}
-          {renderBase('red', 1, 1, gameMode === '4-player' || gameMode === '2-player')}
-          {renderBase('green', 1, 10, gameMode === '4-player')}
-          {renderBase('blue', 10, 1, gameMode === '4-player')}
-          {renderBase('yellow', 10, 10, gameMode === '4-player' || gameMode === '2-player')}
+          {renderBase('red', 1, 1, isInPlay('red'))}
+          {renderBase('green', 1, 10, isInPlay('green'))}
+          {renderBase('blue', 10, 1, isInPlay('blue'))}
+          {renderBase('yellow', 10, 10, isInPlay('yellow'))}
           
           {/* Enhanced Center Home */}
           {renderCenter()}
@@ -417,7 +465,7 @@ export function Board({
         {/* Game mode indicator - moved to top-right corner */}
         <div className="absolute top-2 right-2 bg-white/95 backdrop-blur-sm px-3 py-1.5 rounded-lg shadow-md border border-gray-300">
           <span className="text-xs font-bold text-gray-700">
-            {gameMode === '2-player' ? '2P' : '4P'}
+            {shortLabel}
           </span>
         </div>
       </div>
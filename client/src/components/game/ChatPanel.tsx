@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { MessageCircle, ChevronDown, ChevronUp, Send } from 'lucide-react';
+import { wsClient } from '@/lib/websocket';
+import { EMOTES, EMOTE_ICONS } from '@/lib/emotes';
+import { Emote, Player, WSResponse } from '@shared/schema';
+import { cn } from '@/lib/utils';
+
+// Keep the log short; chat is not stored on the server
+const MAX_LINES = 100;
+let emoteLineCount = 0;
+
+interface ChatLine {
+  id: string;
+  senderId: string;
+  name: string;
+  color: string | null;
+  text: string;
+}
+
+interface ChatPanelProps {
+  playerId: string;
+  players: Player[];
+  canEmote: boolean; // Spectators have no base to show an emote over
+}
+
+export function ChatPanel({ playerId, players, canEmote }: ChatPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [lines, setLines] = useState<ChatLine[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [text, setText] = useState('');
+  const logRef = useRef<HTMLDivElement>(null);
+  const openRef = useRef(open);
+  openRef.current = open;
+
+  useEffect(() => {
+    const unsubscribe = wsClient.onMessage((message: WSResponse) => {
+      let line: ChatLine | null = null;
+      if (message.type === 'chat') {
+        const { id, senderId, name, color, text } = message.payload.message;
+        line = { id, senderId, name, color, text };
+      } else if (message.type === 'emote') {
+        const { playerId: senderId, color, emote } = message.payload;
+        const name = players.find(p => p.id === senderId)?.name || color;
+        line = { id: `emote-${++emoteLineCount}`, senderId, name, color, text: EMOTE_ICONS[emote] };
+      }
+      if (!line) return;
+
+      const added = line;
+      setLines(prev => [...prev, added].slice(-MAX_LINES));
+      if (!openRef.current) setUnread(n => n + 1);
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, [players]);
+
+  useEffect(() => {
+    logRef.current?.scrollTo({ top: logRef.current.scrollHeight });
+  }, [lines, open]);
+
+  const handleToggle = () => {
+    setOpen(!open);
+    setUnread(0);
+  };
+
+  const handleSend = () => {
+    if (!text.trim()) return;
+    wsClient.send({
+      type: 'chat',
+      payload: { text: text.trim() }
+    });
+    setText('');
+  };
+
+  const handleEmote = (emote: Emote) => {
+    wsClient.send({
+      type: 'emote',
+      payload: { emote }
+    });
+  };
+
+  return (
+    <div className="bg-slate-100 rounded-lg" data-testid="panel-chat">
+      <button
+        onClick={handleToggle}
+        className="w-full flex items-center justify-between p-2 text-[10px] font-bold text-slate-400 uppercase tracking-wide"
+        data-testid="button-toggle-chat"
+      >
+        <span className="flex items-center gap-1">
+          <MessageCircle className="w-3.5 h-3.5" />
+          Chat
+          {unread > 0 && (
+            <span className="ml-1 px-1.5 rounded-full bg-purple-500 text-white normal-case">{unread}</span>
+          )}
+        </span>
+        {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {open && (
+        <div className="px-2 pb-2 space-y-2">
+          <div ref={logRef} className="h-32 overflow-y-auto space-y-1 bg-white rounded-md p-2" data-testid="chat-log">
+            {lines.length === 0 && (
+              <p className="text-xs text-slate-400 text-center">No messages yet</p>
+            )}
+            {lines.map(line => (
+              <p key={line.id} className="text-xs text-slate-700 break-words">
+                <span
+                  className={cn("font-bold", line.senderId === playerId && "underline")}
+                  style={line.color ? { color: `var(--color-ludo-${line.color})` } : undefined}
+                >
+                  {line.name}:
+                </span>{' '}
+                {line.text}
+              </p>
+            ))}
+          </div>
+
+          {canEmote && (
+            <div className="grid grid-cols-6 gap-1">
+              {EMOTES.map(emote => (
+                <Button
+                  key={emote}
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleEmote(emote)}
+                  className="h-8 px-0 text-lg"
+                  data-testid={`button-emote-${emote}`}
+                >
+                  {EMOTE_ICONS[emote]}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Input
+              placeholder="Say something..."
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+              maxLength={200}
+              className="h-8 rounded-md text-sm"
+              data-testid="input-chat"
+            />
+            <Button size="icon" onClick={handleSend} className="h-8 w-8 shrink-0" data-testid="button-send-chat">
+              <Send className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import React from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Loader2, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useConnectionState } from '@/hooks/use-connection-state';
+import { wsClient } from '@/lib/websocket';
+
+// Strip across the top of the screen while the server connection is down.
+// Anything sent meanwhile is queued and goes out once we reconnect.
+export function ConnectionBanner() {
+  const state = useConnectionState();
+  const visible = state === 'reconnecting' || state === 'failed';
+
+  return (
+    <AnimatePresence>
+      {visible && (
+        <motion.div
+          initial={{ y: -48, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          exit={{ y: -48, opacity: 0 }}
+          className="fixed top-0 inset-x-0 z-50 flex items-center justify-center gap-2 px-4 py-2 text-sm font-bold text-white shadow-lg bg-orange-500"
+          data-testid="banner-connection"
+        >
+          {state === 'reconnecting' ? (
+            <>
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Connection lost, reconnecting...
+            </>
+          ) : (
+            <>
+              <WifiOff className="w-4 h-4" />
+              Can't reach the server
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => wsClient.retry()}
+                className="h-7 ml-2 rounded-lg"
+                data-testid="button-retry-connection"
+              >
+                Retry
+              </Button>
+            </>
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,23 @@
+import React from 'react';
+import { SignalHigh, SignalLow, SignalMedium } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// Round trips above these feel laggy and then noticeably slow
+const GOOD_LATENCY_MS = 150;
+const FAIR_LATENCY_MS = 400;
+
+interface ConnectionQualityProps {
+  latency: number;
+  className?: string;
+}
+
+export function ConnectionQuality({ latency, className }: ConnectionQualityProps) {
+  const Icon = latency < GOOD_LATENCY_MS ? SignalHigh : latency < FAIR_LATENCY_MS ? SignalMedium : SignalLow;
+  const color = latency < GOOD_LATENCY_MS ? 'text-green-500' : latency < FAIR_LATENCY_MS ? 'text-yellow-500' : 'text-red-500';
+
+  return (
+    <span title={`${latency} ms`} data-testid="connection-quality">
+      <Icon className={cn('w-3.5 h-3.5', color, className)} />
+    </span>
+  );
+}
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+import { DiceAudit } from '@shared/schema';
+import { DiceVerification, verifyDiceAudit } from '@/lib/dice-verify';
+import { cn } from '@/lib/utils';
+
+interface DiceAuditPanelProps {
+  roomCode: string;
+  audit: DiceAudit;
+}
+
+export function DiceAuditPanel({ roomCode, audit }: DiceAuditPanelProps) {
+  const [result, setResult] = useState<DiceVerification | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    setFailed(false);
+    try {
+      setResult(await verifyDiceAudit(audit));
+    } catch (error) {
+      // crypto.subtle only exists on secure (https or localhost) pages
+      console.error('Dice verification failed:', error);
+      setResult(null);
+      setFailed(true);
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const problem = !result ? null
+    : !result.seedMatchesHash ? 'Seed does not match the published hash'
+    : !result.noncesContiguous ? 'Rolls are missing or out of order'
+    : result.foreignSeedNonces.length > 0 ? `${result.foreignSeedNonces.length} rolls use the wrong client seed`
+    : result.mismatchedNonces.length > 0 ? `${result.mismatchedNonces.length} rolls do not match`
+    : null;
+
+  return (
+    <div className="bg-slate-100 p-3 rounded-lg space-y-2" data-testid="panel-dice-audit">
+      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">Provably Fair Dice</p>
+      <div className="text-[10px] font-mono text-slate-600 break-all">
+        <span className="font-bold">Hash:</span> {audit.serverSeedHash}
+      </div>
+      {audit.serverSeed && (
+        <div className="text-[10px] font-mono text-slate-600 break-all">
+          <span className="font-bold">Seed:</span> {audit.serverSeed}
+        </div>
+      )}
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-slate-500">{audit.rolls.length} rolls recorded</span>
+        <a
+          href={`/api/rooms/${roomCode}/dice`}
+          target="_blank"
+          rel="noreferrer"
+          className="text-xs text-slate-500 underline"
+        >
+          Raw log
+        </a>
+      </div>
+      {audit.serverSeed ? (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleVerify}
+          disabled={verifying}
+          className="w-full rounded-lg"
+          data-testid="button-verify-dice"
+        >
+          {verifying ? 'Verifying...' : 'Verify All Rolls'}
+        </Button>
+      ) : (
+        <p className="text-xs text-slate-400">The seed is revealed when the game ends.</p>
+      )}
+      {result && (
+        <div className={cn(
+          "flex items-center gap-2 text-xs font-bold",
+          problem ? "text-red-600" : "text-green-600"
+        )}>
+          {problem ? <ShieldAlert className="w-4 h-4" /> : <ShieldCheck className="w-4 h-4" />}
+          {problem || 'Every roll matches the committed seed'}
+        </div>
+      )}
+      {failed && (
+        <div className="flex items-center gap-2 text-xs font-bold text-slate-500" data-testid="text-verify-failed">
+          <ShieldAlert className="w-4 h-4" />
+          Could not verify in this browser
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Trophy } from 'lucide-react';
+import { PlayerColor } from '@shared/schema';
+import { cn, ordinal } from '@/lib/utils';
+
+interface PodiumProps {
+  places: PlayerColor[][]; // Colours at each place, first place first; partners share one
+  nameOf: (color: PlayerColor) => string;
+  children?: React.ReactNode; // Actions shown under the results
+}
+
+// Step heights for 1st, 2nd and 3rd
+const STEP_HEIGHTS = ['h-16', 'h-12', 'h-8'];
+
+// A team's step is split between its colours
+function stepBackground(colors: PlayerColor[]): string {
+  if (colors.length === 1) return `var(--color-ludo-${colors[0]})`;
+  const stops = colors.map((color, i) => {
+    const from = (i / colors.length) * 100;
+    const to = ((i + 1) / colors.length) * 100;
+    return `var(--color-ludo-${color}) ${from}% ${to}%`;
+  });
+  return `linear-gradient(to right, ${stops.join(', ')})`;
+}
+
+// Results once the match is over: the top three on a podium, anyone else below
+export function Podium({ places, nameOf, children }: PodiumProps) {
+  // 2nd, 1st, 3rd from left to right
+  const steps = [1, 0, 2].filter(place => place < places.length);
+  const namesAt = (place: number) => places[place].map(nameOf).join(' & ');
+
+  return (
+    <motion.div
+      initial={{ scale: 0.8, opacity: 0 }}
+      animate={{ scale: 1, opacity: 1 }}
+      className="mb-4 p-4 bg-gradient-to-r from-yellow-400 to-orange-400 rounded-xl text-center"
+      data-testid="podium"
+    >
+      <Trophy className="w-8 h-8 text-white mx-auto mb-1" />
+      <h2 className="text-lg font-display font-bold text-white">
+        {namesAt(0)} {places[0].length > 1 ? 'Win' : 'Wins'}!
+      </h2>
+
+      <div className="flex items-end justify-center gap-2 mt-3">
+        {steps.map(place => (
+          <div key={place} className="flex flex-col items-center w-20" data-testid={`podium-place-${place + 1}`}>
+            <span className="text-xs font-bold text-white truncate max-w-full mb-1">{namesAt(place)}</span>
+            <div
+              className={cn("w-full rounded-t-lg border-2 border-white/70 shadow flex justify-center pt-1", STEP_HEIGHTS[place])}
+              style={{ background: stepBackground(places[place]) }}
+            >
+              <span className="text-sm font-display font-bold text-white">{ordinal(place + 1)}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {places.slice(3).map((_, i) => (
+        <p key={i} className="text-sm font-bold text-white mt-1" data-testid={`podium-place-${i + 4}`}>
+          {ordinal(i + 4)} • {namesAt(i + 3)}
+        </p>
+      ))}
+
+      {children}
+    </motion.div>
+  );
+}
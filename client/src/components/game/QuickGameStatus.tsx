@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react';
+import { Timer, RotateCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface QuickGameStatusProps {
+  endsAt: number | null; // Epoch ms from the server; null without a time limit
+  turnsPlayed: number;
+  turnLimit: number; // 0 without a turn limit
+}
+
+// How much of a quick game is left, by time and by turns
+export function QuickGameStatus({ endsAt, turnsPlayed, turnLimit }: QuickGameStatusProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!endsAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [endsAt]);
+
+  const remainingSeconds = endsAt ? Math.max(Math.ceil((endsAt - now) / 1000), 0) : 0;
+  const minutes = Math.floor(remainingSeconds / 60);
+  const seconds = String(remainingSeconds % 60).padStart(2, '0');
+
+  return (
+    <div className="flex items-center justify-center gap-4 bg-amber-50 px-3 py-2 rounded-lg" data-testid="quick-game-status">
+      {endsAt && (
+        <span
+          className={cn("flex items-center gap-1 text-sm font-mono font-bold", remainingSeconds < 60 ? "text-red-600" : "text-slate-700")}
+          data-testid="text-quick-time-left"
+        >
+          <Timer className="w-4 h-4" />
+          {minutes}:{seconds}
+        </span>
+      )}
+      {turnLimit > 0 && (
+        <span className="flex items-center gap-1 text-sm font-mono font-bold text-slate-700" data-testid="text-quick-turns">
+          <RotateCw className="w-4 h-4" />
+          {Math.min(turnsPlayed, turnLimit)}/{turnLimit}
+        </span>
+      )}
+    </div>
+  );
+}
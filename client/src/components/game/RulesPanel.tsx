@@ -0,0 +1,81 @@
+import React from 'react';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { RoomRules, SafeSpotRule } from '@shared/schema';
+
+interface RulesPanelProps {
+  rules: RoomRules;
+  editable: boolean;
+  onChange: (rules: Partial<RoomRules>) => void;
+}
+
+type BooleanRule = {
+  [K in keyof RoomRules]: RoomRules[K] extends boolean ? K : never
+}[keyof RoomRules];
+
+const TOGGLES: Array<{ key: BooleanRule; label: string }> = [
+  { key: 'exactRollToFinish', label: 'Exact roll to reach home' },
+  { key: 'extraTurnOnSix', label: 'Extra turn on a 6' },
+  { key: 'extraTurnOnCapture', label: 'Extra turn on capture' },
+  { key: 'extraTurnOnHome', label: 'Extra turn on reaching home' },
+  { key: 'threeSixesForfeit', label: 'Three 6s in a row forfeits the turn' },
+  { key: 'captureToEnterHome', label: 'Capture before entering home column' },
+  { key: 'blocksCannotBePassed', label: 'Doubles block opponents' },
+  { key: 'captureAllOnLanding', label: 'Capture every piece on the cell' },
+  { key: 'playToEnd', label: 'Play on for 2nd, 3rd and last place' },
+];
+
+const SAFE_SPOT_OPTIONS: Array<{ value: SafeSpotRule; label: string }> = [
+  { value: 'standard', label: 'Stars & Starts' },
+  { value: 'starts-only', label: 'Starts Only' },
+  { value: 'none', label: 'None' },
+];
+
+export function RulesPanel({ rules, editable, onChange }: RulesPanelProps) {
+  const leaveOnOne = rules.leaveBaseRolls.includes(1);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between bg-slate-50 px-4 py-2 rounded-xl">
+        <span className="text-sm font-body text-slate-700">Leave base on 1 or 6</span>
+        <Switch
+          checked={leaveOnOne}
+          disabled={!editable}
+          onCheckedChange={(checked) => onChange({ leaveBaseRolls: checked ? [1, 6] : [6] })}
+          data-testid="switch-rule-leaveBaseRolls"
+        />
+      </div>
+
+      {TOGGLES.map(({ key, label }) => (
+        <div key={key} className="flex items-center justify-between bg-slate-50 px-4 py-2 rounded-xl">
+          <span className="text-sm font-body text-slate-700">{label}</span>
+          <Switch
+            checked={rules[key]}
+            disabled={!editable}
+            onCheckedChange={(checked) => onChange({ [key]: checked })}
+            data-testid={`switch-rule-${key}`}
+          />
+        </div>
+      ))}
+
+      <div className="bg-slate-50 px-4 py-2 rounded-xl">
+        <span className="block text-sm font-body text-slate-700 mb-2">Safe spots</span>
+        <div className="grid grid-cols-3 gap-2">
+          {SAFE_SPOT_OPTIONS.map(({ value, label }) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={rules.safeSpots === value ? 'default' : 'outline'}
+              disabled={!editable}
+              onClick={() => onChange({ safeSpots: value })}
+              className="rounded-lg font-display"
+              data-testid={`button-safe-spots-${value}`}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
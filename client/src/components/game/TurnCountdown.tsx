@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+
+interface TurnCountdownProps {
+  deadline: number; // Epoch ms from the server
+  seconds: number; // Full length of the turn, for the ring's proportion
+}
+
+const RADIUS = 45;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+// Ring drawn over the current player's base that drains as the turn runs out
+export function TurnCountdown({ deadline, seconds }: TurnCountdownProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 200);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  // Clamp so a client clock ahead of or behind the server still draws sensibly
+  const remainingMs = Math.min(Math.max(deadline - now, 0), seconds * 1000);
+  const fraction = seconds > 0 ? remainingMs / (seconds * 1000) : 0;
+  const urgent = remainingMs < 5000;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-10" data-testid="turn-countdown">
+      <svg viewBox="0 0 100 100" className="w-full h-full -rotate-90">
+        <circle cx="50" cy="50" r={RADIUS} fill="none" strokeWidth="4" className="stroke-white/40" />
+        <circle
+          cx="50"
+          cy="50"
+          r={RADIUS}
+          fill="none"
+          strokeWidth="4"
+          strokeLinecap="round"
+          strokeDasharray={CIRCUMFERENCE}
+          strokeDashoffset={CIRCUMFERENCE * (1 - fraction)}
+          className={cn("transition-[stroke-dashoffset] duration-200 ease-linear", urgent ? "stroke-red-500" : "stroke-yellow-400")}
+        />
+      </svg>
+      <span
+        className={cn(
+          "absolute bottom-1 right-1 px-1.5 rounded-md text-xs font-mono font-bold bg-white/90 shadow",
+          urgent ? "text-red-600 animate-pulse" : "text-slate-700"
+        )}
+      >
+        {Math.ceil(remainingMs / 1000)}s
+      </span>
+    </div>
+  );
+}
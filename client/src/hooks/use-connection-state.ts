@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from 'react';
+import { wsClient, ConnectionState } from '@/lib/websocket';
+
+export function useConnectionState(): ConnectionState {
+  return useSyncExternalStore(
+    (onChange) => {
+      const unsubscribe = wsClient.onStateChange(onChange);
+      return () => {
+        unsubscribe();
+      };
+    },
+    () => wsClient.getState(),
+  );
+}
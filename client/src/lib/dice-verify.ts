@@ -0,0 +1,56 @@
+import { DiceAudit } from '@shared/schema';
+import { getRollMessage, rollFromDigest } from '@shared/provably-fair';
+
+export interface DiceVerification {
+  seedMatchesHash: boolean;
+  noncesContiguous: boolean; // Rolls run 0, 1, 2... so none were dropped or reordered
+  foreignSeedNonces: number[]; // Rolls made with a client seed the player didn't commit to
+  mismatchedNonces: number[]; // Rolls whose value isn't what the seeds give
+}
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function sha256(value: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(value)));
+}
+
+async function hmacSha256(key: string, message: string): Promise<string> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return toHex(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message)));
+}
+
+// Recompute every roll from the revealed server seed, independently of the
+// server, and check that the log is complete and uses the committed client seeds
+export async function verifyDiceAudit(audit: DiceAudit): Promise<DiceVerification> {
+  if (!audit.serverSeed) {
+    throw new Error('Server seed has not been revealed yet');
+  }
+
+  const seedMatchesHash = (await sha256(audit.serverSeed)) === audit.serverSeedHash;
+  const noncesContiguous = audit.rolls.every((roll, i) => roll.nonce === i);
+  const foreignSeedNonces = audit.rolls
+    .filter(roll => audit.clientSeeds[roll.playerId] !== roll.clientSeed)
+    .map(roll => roll.nonce);
+  const mismatchedNonces: number[] = [];
+
+  for (const roll of audit.rolls) {
+    const digest = await hmacSha256(audit.serverSeed, getRollMessage(roll.clientSeed, roll.nonce));
+    if (rollFromDigest(digest) !== roll.value) {
+      mismatchedNonces.push(roll.nonce);
+    }
+  }
+
+  return { seedMatchesHash, noncesContiguous, foreignSeedNonces, mismatchedNonces };
+}
@@ -0,0 +1,15 @@
+import { Emote } from '@shared/schema';
+
+export const EMOTE_ICONS: Record<Emote, string> = {
+  'thumbs-up': '👍',
+  laugh: '😂',
+  wow: '😮',
+  angry: '😠',
+  cry: '😢',
+  gg: '🤝',
+};
+
+export const EMOTES = Object.keys(EMOTE_ICONS) as Emote[];
+
+// How long an emote stays over the sender's base
+export const EMOTE_DURATION_MS = 2500;
@@ -1,17 +1,15 @@
-export type PlayerColor = 'red' | 'green' | 'yellow' | 'blue';
+import type { GamePiece, PlayerColor } from '@shared/schema';
+import { PLAYER_START_OFFSETS, SAFE_SPOT_POSITIONS } from '@shared/ludo-engine';
+
+// Piece types and track rules live in shared/ so the server and client agree on them
+export type { GamePiece, PlayerColor };
+export { PLAYER_START_OFFSETS };
 
 export interface Position {
   x: number;
   y: number;
 }
 
-export interface GamePiece {
-  id: string;
-  color: PlayerColor;
-  position: number; // -1 for base, 0-51 for main track, 52-57 for home stretch, 99 for finished
-  isSafe: boolean;
-}
-
 // Map logical path index (0-51) to grid coordinates (15x15)
 // This is a simplified path mapping for a standard Ludo board
 export const PATH_COORDINATES: Position[] = [
@@ -30,14 +28,6 @@ export const PATH_COORDINATES: Position[] = [
   { x: 0, y: 7 }, { x: 0, y: 6 } // Loop closes back to start - 1
 ];
 
-// Start offsets for each player on the 52-cell track
-export const PLAYER_START_OFFSETS: Record<PlayerColor, number> = {
-  red: 0,
-  green: 13,
-  yellow: 26,
-  blue: 39
-};
-
 // Home path coordinates for each player
 export const HOME_PATH_COORDINATES: Record<PlayerColor, Position[]> = {
   red: [{ x: 1, y: 7 }, { x: 2, y: 7 }, { x: 3, y: 7 }, { x: 4, y: 7 }, { x: 5, y: 7 }, { x: 6, y: 7 }],
@@ -59,7 +49,7 @@ export const BASE_POSITIONS: Record<PlayerColor, Position[]> = {
   blue: [{ x: 1.5, y: 10.5 }, { x: 3.5, y: 10.5 }, { x: 1.5, y: 12.5 }, { x: 3.5, y: 12.5 }]
 };
 
-export const SAFE_SPOTS = [0, 8, 13, 21, 26, 34, 39, 47]; // Indices on the main track
+export const SAFE_SPOTS = SAFE_SPOT_POSITIONS; // Indices on the main track
 
 export function getCoordinates(piece: GamePiece): Position {
   if (piece.position === -1) {
@@ -0,0 +1,96 @@
+import { GameEvent, GamePiece, GameReplay, PlayerColor } from '@shared/schema';
+import { BASE_POSITION, FINISHED_POSITION, createInitialPieces, isPieceOnSafeSpot } from '@shared/ludo-engine';
+import { BOARD_ORDER } from '@shared/game-modes';
+import { ordinal } from './utils';
+
+// One step of a replay: the board right after a roll or a move
+export interface ReplayFrame {
+  pieces: GamePiece[];
+  turn: PlayerColor;
+  diceValue: number | null;
+  events: GameEvent[];
+}
+
+// Rebuild every board position from the event log alone. Rolls and moves
+// start a new frame; captures, finishes and turn passes belong to the
+// action that caused them.
+export function buildReplayFrames(replay: GameReplay): ReplayFrame[] {
+  const started = replay.events.find(e => e.type === 'started');
+  const turnOrder = started?.type === 'started'
+    ? started.turnOrder
+    : BOARD_ORDER.filter(color => replay.players.some(p => p.colors.includes(color)));
+
+  let frame: ReplayFrame = {
+    pieces: createInitialPieces(turnOrder, replay.rules),
+    turn: turnOrder[0],
+    diceValue: null,
+    events: started ? [started] : [],
+  };
+  const frames: ReplayFrame[] = [frame];
+
+  const updatePiece = (pieceId: string, update: (piece: GamePiece) => GamePiece) => {
+    frame.pieces = frame.pieces.map(p => p.id === pieceId ? update(p) : p);
+  };
+
+  replay.events.forEach(event => {
+    if (event.type === 'rolled' || event.type === 'moved') {
+      frame = { ...frame, events: [] };
+      frames.push(frame);
+    }
+    if (event.type !== 'started') {
+      frame.events.push(event);
+    }
+
+    switch (event.type) {
+      case 'rolled':
+        frame.turn = event.color;
+        frame.diceValue = event.value;
+        break;
+      case 'moved':
+        updatePiece(event.pieceId, p => {
+          const moved = { ...p, position: event.to };
+          return { ...moved, isSafe: isPieceOnSafeSpot(moved, replay.rules) };
+        });
+        break;
+      case 'captured':
+        updatePiece(event.piece.id, p => ({ ...p, position: BASE_POSITION, isSafe: true }));
+        break;
+      case 'finished':
+        updatePiece(event.pieceId, p => ({ ...p, position: FINISHED_POSITION, isSafe: true }));
+        break;
+      case 'turn_passed':
+        frame.turn = event.to;
+        break;
+    }
+  });
+
+  return frames;
+}
+
+// Human-readable line for the replay's event list
+export function describeEvent(event: GameEvent, nameOf: (color: PlayerColor) => string): string {
+  switch (event.type) {
+    case 'started':
+      return 'Game started';
+    case 'rolled':
+      return `${nameOf(event.color)} rolled a ${event.value}`;
+    case 'moved':
+      return event.from === BASE_POSITION
+        ? `${nameOf(event.color)} brought a piece out`
+        : `${nameOf(event.color)} moved ${event.to - event.from} spaces`;
+    case 'captured':
+      return `${nameOf(event.piece.color)}'s piece was captured`;
+    case 'finished':
+      return `${nameOf(event.color)} got a piece home`;
+    case 'forfeited':
+      return `${nameOf(event.color)} rolled three 6s and lost the turn`;
+    case 'limit_reached':
+      return event.limit === 'time' ? 'Time is up' : 'Out of turns';
+    case 'turn_passed':
+      return `${nameOf(event.to)}'s turn`;
+    case 'placed':
+      return `${nameOf(event.color)} finished ${ordinal(event.place)}`;
+    case 'won':
+      return `${nameOf(event.color)} wins!`;
+  }
+}
@@ -0,0 +1,34 @@
+import { wsClient } from './websocket';
+import { applyRoomDelta } from '@shared/room-delta';
+import { GameRoom, RoomDelta } from '@shared/schema';
+
+// The client's copy of a room. Full snapshots replace it; deltas are applied
+// only if they follow on from the version we have, and a gap makes us ask the
+// server for a fresh snapshot instead.
+export class RoomSync {
+  private awaitingSnapshot = false;
+
+  constructor(public room: GameRoom) {}
+
+  reset(room: GameRoom): GameRoom {
+    this.awaitingSnapshot = false;
+    this.room = room;
+    return room;
+  }
+
+  // Returns the updated room, or null if the delta was skipped
+  applyDelta(delta: RoomDelta): GameRoom | null {
+    // Already covered by a snapshot, or a snapshot is on its way
+    if (this.awaitingSnapshot || delta.version <= this.room.version) return null;
+
+    const room = applyRoomDelta(this.room, delta);
+    if (!room) {
+      this.awaitingSnapshot = true;
+      wsClient.send({ type: 'sync' });
+      return null;
+    }
+
+    this.room = room;
+    return room;
+  }
+}
@@ -4,3 +4,10 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// 1 -> "1st", 2 -> "2nd", ... for finishing places
+export function ordinal(n: number): string {
+  const suffixes = ["th", "st", "nd", "rd"]
+  const v = n % 100
+  return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0])
+}
@@ -1,58 +1,245 @@
-import { WSMessage, WSResponse, GameRoom } from '@shared/schema';
+import { WSMessage, WSResponse, GameRoom, Capability, CAPABILITIES, PROTOCOL_VERSION, wsResponseSchema } from '@shared/schema';
 
 type MessageHandler = (message: WSResponse) => void;
 
+// idle: not started or deliberately closed. failed: gave up while the tab was
+// hidden; retry() or coming back to the tab starts again.
+export type ConnectionState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'failed';
+type StateHandler = (state: ConnectionState) => void;
+
+// sessionStorage survives a tab refresh but not a new tab, so two tabs never share a seat
+const SESSION_STORAGE_KEY = 'ludo-session-token';
+const PING_INTERVAL_MS = 5000;
+// First protocol version whose servers answer 'ping'
+const PING_PROTOCOL_VERSION = 3;
+
+// Reconnect delays grow exponentially up to the cap, with full jitter so a
+// server restart isn't met by every client at once
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+// Retries are unlimited while the tab is visible; a hidden tab stops after this many
+const MAX_HIDDEN_RECONNECT_ATTEMPTS = 5;
+// Messages sent while disconnected wait for the next connection, up to this many
+const MAX_QUEUED_MESSAGES = 50;
+
+// Where to connect: ?server= on the page URL, then VITE_WS_URL, then the host
+// that served the page. Overrides may be bare hosts or ws(s)/http(s) URLs.
+export function resolveServerUrl(location: Location = window.location): string {
+  const secure = location.protocol === 'https:';
+  const fallback = `${secure ? 'wss:' : 'ws:'}//${location.host}/ws`;
+
+  const override = new URLSearchParams(location.search).get('server') || import.meta.env.VITE_WS_URL;
+  if (!override) return fallback;
+
+  try {
+    const url = new URL(/^[a-z]+:\/\//i.test(override) ? override : `${secure ? 'wss' : 'ws'}://${override}`);
+    url.protocol = url.protocol === 'https:' || url.protocol === 'wss:' ? 'wss:' : 'ws:';
+    if (url.pathname === '/') url.pathname = '/ws';
+    return url.toString();
+  } catch {
+    console.error(`Ignoring invalid server URL: ${override}`);
+    return fallback;
+  }
+}
+
 export class WebSocketClient {
   private ws: WebSocket | null = null;
   private messageHandlers: Set<MessageHandler> = new Set();
+  private stateHandlers: Set<StateHandler> = new Set();
+  private state: ConnectionState = 'idle';
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private queue: string[] = [];
+  private nextRequestId = 0;
+  // Assume everything until the server's hello says otherwise
+  private capabilities: Capability[] = CAPABILITIES;
+  // Set once the server has told us to reload; we stop talking to it after that
+  private outdated = false;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  readonly url = resolveServerUrl();
+  // Round trip of the last ping in ms, once the server has answered one
+  latency: number | null = null;
+
+  constructor() {
+    // Coming back to the tab retries straight away instead of waiting out the backoff
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible' && (this.state === 'reconnecting' || this.state === 'failed')) {
+        this.retry();
+      }
+    });
+  }
 
   connect() {
-    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const wsUrl = `${protocol}//dummy-ludo.onrender.com/ws`;
+    // Already connected or connecting
+    if (this.ws && this.ws.readyState <= WebSocket.OPEN) return;
+    if (this.outdated) return;
 
-    this.ws = new WebSocket(wsUrl);
+    this.setState(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+    const ws = new WebSocket(this.url);
+    this.ws = ws;
 
-    this.ws.onopen = () => {
+    ws.onopen = () => {
       console.log('WebSocket connected');
       this.reconnectAttempts = 0;
+      this.setState('open');
+      this.send({ type: 'hello', payload: { version: PROTOCOL_VERSION, capabilities: CAPABILITIES } });
+
+      // Reclaim our seat (or our place watching) after a dropped connection or a page refresh
+      const sessionToken = sessionStorage.getItem(SESSION_STORAGE_KEY);
+      if (sessionToken) {
+        this.send({ type: 'resume', payload: { sessionToken } });
+      }
+
+      // Then whatever was sent while we were offline, in order
+      const queued = this.queue;
+      this.queue = [];
+      queued.forEach(data => ws.send(data));
     };
 
-    this.ws.onmessage = (event) => {
+    ws.onmessage = (event) => {
       try {
-        const message: WSResponse = JSON.parse(event.data);
+        // Drop anything that doesn't match the protocol rather than half-apply it
+        const raw = JSON.parse(event.data);
+        const result = wsResponseSchema.safeParse(raw);
+        if (!result.success) {
+          // A newer server may send messages we don't know yet; that's expected
+          if (typeof raw?.v === 'number' && raw.v > PROTOCOL_VERSION) return;
+          console.error('Invalid WebSocket message:', result.error.issues);
+          return;
+        }
+        const message = result.data;
+        this.trackSession(message);
+        this.trackHello(message);
+        if (message.type === 'pong') {
+          this.latency = Date.now() - message.payload.sentAt;
+        }
         this.messageHandlers.forEach(handler => handler(message));
       } catch (error) {
         console.error('Failed to parse WebSocket message:', error);
       }
     };
 
-    this.ws.onclose = () => {
+    ws.onclose = () => {
       console.log('WebSocket disconnected');
-      this.attemptReconnect();
+      this.stopPing();
+      // disconnect() clears ws; only reconnect after an unexpected drop
+      if (this.ws === ws) {
+        this.ws = null;
+        this.attemptReconnect();
+      }
     };
 
-    this.ws.onerror = (error) => {
+    ws.onerror = (error) => {
       console.error('WebSocket error:', error);
     };
   }
 
+  private trackSession(message: WSResponse) {
+    if (message.type === 'room_created' || message.type === 'room_joined' || message.type === 'session_resumed' || message.type === 'spectating') {
+      sessionStorage.setItem(SESSION_STORAGE_KEY, message.payload.sessionToken);
+    } else if (message.type === 'resume_failed' || message.type === 'room_closed') {
+      sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+  }
+
+  private trackHello(message: WSResponse) {
+    if (message.type !== 'hello') return;
+    if (message.payload.status === 'accepted') {
+      this.capabilities = message.payload.capabilities;
+      // Older servers would reject pings as unknown messages
+      if (message.payload.version >= PING_PROTOCOL_VERSION) {
+        this.startPing();
+      }
+    } else {
+      this.outdated = true;
+      this.disconnect();
+    }
+  }
+
+  private startPing() {
+    this.stopPing();
+    const ping = () => this.send({ type: 'ping', payload: { sentAt: Date.now() } });
+    ping();
+    this.pingTimer = setInterval(ping, PING_INTERVAL_MS);
+  }
+
+  private stopPing() {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    this.latency = null;
+  }
+
+  hasCapability(capability: Capability) {
+    return this.capabilities.includes(capability);
+  }
+
   private attemptReconnect() {
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      console.log(`Reconnecting... (${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
-      setTimeout(() => this.connect(), this.reconnectDelay * this.reconnectAttempts);
+    if (document.visibilityState === 'hidden' && this.reconnectAttempts >= MAX_HIDDEN_RECONNECT_ATTEMPTS) {
+      this.setState('failed');
+      return;
     }
+
+    const cap = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts);
+    const delay = Math.random() * cap;
+    this.reconnectAttempts++;
+    this.setState('reconnecting');
+    console.log(`Reconnecting in ${Math.round(delay)}ms (attempt ${this.reconnectAttempts})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  // Try again now, e.g. from the "Retry" button once we've given up
+  retry() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempts = 0;
+    this.connect();
+  }
+
+  getState(): ConnectionState {
+    return this.state;
   }
 
-  send(message: WSMessage) {
+  onStateChange(handler: StateHandler) {
+    this.stateHandlers.add(handler);
+    return () => this.stateHandlers.delete(handler);
+  }
+
+  private setState(state: ConnectionState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateHandlers.forEach(handler => handler(state));
+  }
+
+  // Returns the id the server will echo as requestId if the message fails
+  send(message: WSMessage): string {
+    if (message.type === 'leave') {
+      sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+
+    const id = message.id ?? String(++this.nextRequestId);
+    const data = JSON.stringify({ ...message, id, v: PROTOCOL_VERSION });
     if (this.ws?.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(message));
-    } else {
-      console.error('WebSocket not connected');
+      this.ws.send(data);
+    } else if (message.type !== 'ping') {
+      // A queued ping would only measure the outage
+      this.enqueue(data);
     }
+    return id;
+  }
+
+  private enqueue(data: string) {
+    if (this.queue.length >= MAX_QUEUED_MESSAGES) {
+      console.error('WebSocket send queue is full; dropping message');
+      return;
+    }
+    this.queue.push(data);
   }
 
   onMessage(handler: MessageHandler) {
@@ -61,8 +248,16 @@ export class WebSocketClient {
   }
 
   disconnect() {
-    this.ws?.close();
+    this.stopPing();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.queue = [];
+    this.setState('idle');
+    const ws = this.ws;
     this.ws = null;
+    ws?.close();
   }
 }
 
@@ -1,102 +1,58 @@
 import React, { useState, useEffect } from "react";
 import { Board } from "@/components/game/Board";
 import { Dice } from "@/components/game/Dice";
+import { Podium } from "@/components/game/Podium";
 import { GamePiece, PlayerColor, getCoordinates } from "@/lib/ludo-logic";
+import { BotStrategy, GameState } from "@shared/schema";
+import { BOT_STRATEGIES, BOT_STRATEGY_LABELS, chooseBotMove } from "@shared/ludo-bots";
+import { rollWeightedDice } from "@shared/dice";
+import { BOARD_ORDER } from "@shared/game-modes";
+import {
+  DEFAULT_ROOM_RULES,
+  EngineContext,
+  applyAction,
+  canMovePiece,
+  createInitialState,
+  getCurrentColor,
+  getPlaces,
+} from "@shared/ludo-engine";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Trophy, RefreshCw, Users } from "lucide-react";
+import { Trophy, RefreshCw, Users, Bot, LogOut } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import generatedImage from "@assets/generated_images/light_wooden_table_texture_for_game_background.png";
 import { useToast } from "@/hooks/use-toast";
-import { cn } from "@/lib/utils";
+import { cn, ordinal } from "@/lib/utils";
 
-const PLAYERS: PlayerColor[] = ["red", "blue", "yellow", "green"]; // Clockwise: red → blue → yellow → green
+// Same turn order as online games
+const PLAYERS: PlayerColor[] = BOARD_ORDER;
+const ENGINE_CONTEXT: EngineContext = { turnOrder: PLAYERS, rules: DEFAULT_ROOM_RULES };
+const BOT_ACTION_DELAY_MS = 900;
 
-export default function Game() {
-  const { toast } = useToast();
+// Order the per-colour controller toggle cycles through
+const CONTROLLER_CYCLE: Array<BotStrategy | null> = [null, ...BOT_STRATEGIES];
 
-  const [pieces, setPieces] = useState<GamePiece[]>(() => {
-    const initialPieces: GamePiece[] = [];
-    PLAYERS.forEach((color) => {
-      for (let i = 0; i < 4; i++) {
-        initialPieces.push({
-          id: `${color}-${i}`,
-          color,
-          position: -1, // -1 means in base
-          isSafe: true,
-        });
-      }
-    });
-    return initialPieces;
-  });
+interface GameProps {
+  onLeave?: () => void;
+}
 
-  const [turnIndex, setTurnIndex] = useState(0);
-  const [diceValue, setDiceValue] = useState<number | null>(null);
-  const [previousPlayerLastRoll, setPreviousPlayerLastRoll] = useState<number | null>(null); // Last roll from PREVIOUS player
-  const [currentPlayerRolls, setCurrentPlayerRolls] = useState<number[]>([]); // Track current player's rolls this turn
+export default function Game({ onLeave }: GameProps) {
+  const { toast } = useToast();
+
+  const [gameState, setGameState] = useState<GameState>(() => createInitialState(PLAYERS));
+  const [displayDiceValue, setDisplayDiceValue] = useState<number>(1);
   const [isRolling, setIsRolling] = useState(false);
-  const [waitingForMove, setWaitingForMove] = useState(false);
-  const [winner, setWinner] = useState<PlayerColor | null>(null);
+  // null = human at this seat, otherwise the bot strategy playing it
+  const [controllers, setControllers] = useState<Record<PlayerColor, BotStrategy | null>>({
+    red: null,
+    blue: null,
+    yellow: null,
+    green: null,
+  });
 
-  const currentTurnColor = PLAYERS[turnIndex];
-
-  // Enhanced weighted dice roll with increased 6 probability and better previous number avoidance
-  const rollWeightedDice = (): number => {
-    const playerPieces = pieces.filter((p) => p.color === currentTurnColor);
-    const allPiecesInBase = playerPieces.every((p) => p.position === -1);
-    
-    // Base probabilities - boost 6 to 25% (was 16.67%)
-    const weights = [15, 15, 15, 15, 15, 25]; // 6 gets 25% chance
-    
-    // If all pieces in base, prioritize getting 6 over avoiding previous number
-    if (allPiecesInBase) {
-      weights[0] = 10; weights[1] = 10; weights[2] = 10; 
-      weights[3] = 10; weights[4] = 10; weights[5] = 50; // 50% chance for 6!
-    } else {
-      // Only apply previous number reduction if NOT all pieces in base
-      // Reduce probability of getting same number as previous PLAYER's last roll to 2%
-      // Only apply if this is the first roll of current player's turn
-      if (previousPlayerLastRoll !== null && currentPlayerRolls.length === 0) {
-        const lastRollIndex = previousPlayerLastRoll - 1;
-        const originalWeight = weights[lastRollIndex];
-        const reducedWeight = 2; // Even lower chance (2%)
-        const weightToRedistribute = originalWeight - reducedWeight;
-        
-        if (weightToRedistribute > 0) {
-          weights[lastRollIndex] = reducedWeight;
-          // Distribute the removed weight among other numbers, but give extra to 6
-          const otherIndices = [0, 1, 2, 3, 4, 5].filter(i => i !== lastRollIndex);
-          const baseExtraPerNumber = weightToRedistribute / otherIndices.length;
-          
-          otherIndices.forEach((i) => {
-            if (i === 5) { // Give extra boost to 6
-              weights[i] += baseExtraPerNumber * 1.5;
-            } else {
-              weights[i] += baseExtraPerNumber * 0.875; // Slightly less for others
-            }
-          });
-          
-        }
-      }
-    }
-    
-    // Normalize weights to ensure they sum to 100
-    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
-    const normalizedWeights = weights.map(w => (w / totalWeight) * 100);
-    // Generate random number based on weights
-    let random = Math.random() * 100;
-    let roll = 1;
-    
-    for (let i = 0; i < normalizedWeights.length; i++) {
-      random -= normalizedWeights[i];
-      if (random <= 0) {
-        roll = i + 1;
-        break;
-      }
-    }
-    
-    return roll;
-  };
+  const { pieces, waitingForMove, winner, finishingOrder } = gameState;
+  const currentTurnColor = getCurrentColor(gameState, ENGINE_CONTEXT);
+  const currentBot = controllers[currentTurnColor];
 
   const rollDice = async () => {
     if (isRolling || waitingForMove || winner) return;
@@ -105,167 +61,94 @@ export default function Game() {
     // Simulate roll duration
     await new Promise((resolve) => setTimeout(resolve, 800));
 
-    const roll = rollWeightedDice();
-    setDiceValue(roll);
-    setCurrentPlayerRolls(prev => [...prev, roll]); // Track this roll
+    const roll = rollWeightedDice(gameState, currentTurnColor);
+    const { state } = applyAction(gameState, { type: 'roll', value: roll }, ENGINE_CONTEXT);
+    setDisplayDiceValue(roll);
+    setGameState(state);
     setIsRolling(false);
 
-    // Check if player has valid moves
-    if (!hasValidMoves(currentTurnColor, roll)) {
+    if (!state.waitingForMove) {
       toast({
         title: "No Moves",
         description: `You rolled a ${roll} but can't move any pieces.`,
         duration: 2000,
       });
-      setTimeout(nextTurn, 1000);
-    } else {
-      setWaitingForMove(true);
     }
   };
 
-  const hasValidMoves = (color: PlayerColor, roll: number) => {
-    const playerPieces = pieces.filter((p) => p.color === color);
-    return playerPieces.some((p) => canMovePiece(p, roll));
-  };
-
-  const canMovePiece = (
-    piece: GamePiece,
-    roll: number = diceValue || 0,
-  ): boolean => {
+  const isPieceMovable = (piece: GamePiece): boolean => {
+    if (!waitingForMove || !gameState.diceValue) return false;
     if (piece.color !== currentTurnColor) return false;
-    if (!waitingForMove) return false;
-
-    // Rule: Need a 6 to leave base
-    if (piece.position === -1) {
-      return roll === 6;
-    }
-
-    // Rule: Cannot overshoot 99 (finish)
-    if (piece.position + roll > 57) return false;
-
-    return true;
+    return canMovePiece(gameState, piece, gameState.diceValue, ENGINE_CONTEXT);
   };
 
-  // Safe spots on the main track (ABSOLUTE positions where pieces cannot be captured)
-  // Start positions: Red=0, Green=13, Yellow=26, Blue=39
-  // Star positions: 8, 21, 34, 47
-  const SAFE_SPOT_POSITIONS = [0, 8, 13, 21, 26, 34, 39, 47];
-  
-  // Player start offsets on the 52-cell track
-  const PLAYER_START_OFFSETS: Record<PlayerColor, number> = {
-    red: 0,
-    green: 13,
-    yellow: 26,
-    blue: 39
-  };
+  const movePiece = (piece: GamePiece) => {
+    const { state, events } = applyAction(gameState, { type: 'move', pieceId: piece.id }, ENGINE_CONTEXT);
 
-  // Get absolute track position (0-51) from piece's relative position
-  const getAbsoluteTrackPosition = (piece: GamePiece): number => {
-    if (piece.position < 0 || piece.position > 50) return -1; // Not on main track
-    const offset = PLAYER_START_OFFSETS[piece.color];
-    return (piece.position + offset) % 52;
-  };
+    events.forEach((event) => {
+      if (event.type === 'captured') {
+        toast({
+          title: "💥 Captured!",
+          description: `${currentTurnColor} sent ${event.piece.color} back to base!`,
+          className: "bg-red-500 text-white border-red-600",
+          duration: 3000,
+        });
+      } else if (event.type === 'finished') {
+        toast({
+          title: "🏠 Home!",
+          description: "A piece made it home!",
+          className: "bg-green-500 text-white",
+        });
+      } else if (event.type === 'placed' && !state.winner) {
+        toast({
+          title: "🏁 Finished!",
+          description: `${event.color} finished ${ordinal(event.place)}`,
+          duration: 3000,
+        });
+      }
+    });
 
-  // Check if a piece is on a safe spot (using absolute track position)
-  const isPieceOnSafeSpot = (piece: GamePiece): boolean => {
-    if (piece.position >= 51) return true; // Home path is always safe
-    if (piece.position < 0) return true; // Base is always safe
-    if (piece.position === 99) return true; // Finished is always safe
-    const absolutePos = getAbsoluteTrackPosition(piece);
-    return SAFE_SPOT_POSITIONS.includes(absolutePos);
+    setGameState(state);
   };
 
   const handlePieceClick = (piece: GamePiece) => {
-    if (!diceValue || !canMovePiece(piece, diceValue)) return;
-
-    const newPieces = [...pieces];
-    const pIndex = newPieces.findIndex((p) => p.id === piece.id);
-    const p = newPieces[pIndex];
-
-    // Move Logic
-    if (p.position === -1) {
-      p.position = 0; // Start position
-    } else {
-      p.position += diceValue;
-    }
+    if (currentBot || !isPieceMovable(piece)) return;
+    movePiece(piece);
+  };
 
-    // Update isSafe status using absolute position
-    p.isSafe = isPieceOnSafeSpot(p);
+  const handleRollDice = () => {
+    if (currentBot) return;
+    rollDice();
+  };
 
-    // Check for capture (only on main track, positions 0-50)
-    let captured = false;
-    
-    if (p.position >= 0 && p.position <= 50) {
-      const absolutePos = getAbsoluteTrackPosition(p);
-      
-      // Check if landing spot is a safe spot
-      const isLandingSpotSafe = SAFE_SPOT_POSITIONS.includes(absolutePos);
-      
-      if (!isLandingSpotSafe) {
-        const collisionIndex = newPieces.findIndex(
-          (other) =>
-            other.color !== p.color &&
-            other.position >= 0 &&
-            other.position <= 50 &&
-            getAbsoluteTrackPosition(other) === absolutePos
-        );
+  // Let the bot at the current seat roll, then move
+  useEffect(() => {
+    if (!currentBot || winner || isRolling) return;
 
-        if (collisionIndex !== -1) {
-          // Capture!
-          const capturedPiece = newPieces[collisionIndex];
-          toast({
-            title: "💥 Captured!",
-            description: `${currentTurnColor} sent ${capturedPiece.color} back to base!`,
-            className: "bg-red-500 text-white border-red-600",
-            duration: 3000,
-          });
-          newPieces[collisionIndex].position = -1; // Send back to base
-          newPieces[collisionIndex].isSafe = true;
-          captured = true;
-        }
+    const timer = setTimeout(() => {
+      if (!waitingForMove) {
+        rollDice();
+        return;
       }
-    }
-
-    if (p.position === 57) {
-      p.position = 99; // Marked as finished
-      p.isSafe = true;
-      toast({
-        title: "🏠 Home!",
-        description: "A piece made it home!",
-        className: "bg-green-500 text-white",
-      });
-    }
-
-    setPieces(newPieces);
-    setWaitingForMove(false);
-
-    // Rule: Rolling a 6 or capturing gives another turn
-    if (diceValue === 6 || captured) {
-      setDiceValue(null);
-    } else {
-      nextTurn();
-    }
-  };
-
-  const nextTurn = () => {
-    // Save the last roll from current player for the next player's probability
-    const lastRoll = currentPlayerRolls.length > 0 ? currentPlayerRolls[currentPlayerRolls.length - 1] : null;
-    setPreviousPlayerLastRoll(lastRoll);
-    setCurrentPlayerRolls([]); // Reset for next player
-    setDiceValue(null);
-    setWaitingForMove(false);
-    setTurnIndex((prev) => (prev + 1) % 4);
+      const pieceId = chooseBotMove(gameState, ENGINE_CONTEXT, currentBot);
+      const piece = pieces.find((p) => p.id === pieceId);
+      if (piece) movePiece(piece);
+    }, BOT_ACTION_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [gameState, currentBot, isRolling]);
+
+  const cycleController = (color: PlayerColor) => {
+    setControllers((prev) => {
+      const next = CONTROLLER_CYCLE[(CONTROLLER_CYCLE.indexOf(prev[color]) + 1) % CONTROLLER_CYCLE.length];
+      return { ...prev, [color]: next };
+    });
   };
 
   const resetGame = () => {
-    setPieces((prev) => prev.map((p) => ({ ...p, position: -1 })));
-    setTurnIndex(0);
-    setDiceValue(null);
-    setPreviousPlayerLastRoll(null);
-    setCurrentPlayerRolls([]);
-    setWinner(null);
+    setGameState(createInitialState(PLAYERS));
+    setDisplayDiceValue(1);
     setIsRolling(false);
-    setWaitingForMove(false);
   };
 
   return (
@@ -289,14 +172,12 @@ export default function Game() {
             pieces={pieces}
             onPieceClick={handlePieceClick}
             currentTurn={currentTurnColor}
-            canMovePiece={(p) =>
-              hasValidMoves(currentTurnColor, diceValue || 0) && canMovePiece(p)
-            }
+            canMovePiece={(p) => !currentBot && isPieceMovable(p)}
             gameMode="4-player"
-            diceValue={diceValue || 1}
+            diceValue={displayDiceValue}
             isRolling={isRolling}
-            onRollDice={rollDice}
-            canRollDice={!isRolling && !waitingForMove && !winner}
+            onRollDice={handleRollDice}
+            canRollDice={!currentBot && !isRolling && !waitingForMove && !winner}
           />
         </div>
 
@@ -307,11 +188,34 @@ export default function Game() {
               <h1 className="text-xl font-display font-bold text-slate-800">
                 Ludo Friends
               </h1>
-              <Button variant="ghost" size="icon" onClick={resetGame}>
-                <RefreshCw className="w-4 h-4 text-slate-500" />
-              </Button>
+              <div className="flex items-center">
+                <Button variant="ghost" size="icon" onClick={resetGame}>
+                  <RefreshCw className="w-4 h-4 text-slate-500" />
+                </Button>
+                {onLeave && (
+                  <Button variant="ghost" size="icon" onClick={onLeave} data-testid="button-leave-offline">
+                    <LogOut className="w-4 h-4 text-slate-500" />
+                  </Button>
+                )}
+              </div>
             </div>
 
+            {/* Results */}
+            {winner && (
+              <Podium places={getPlaces(gameState, ENGINE_CONTEXT)} nameOf={(color) => `${color[0].toUpperCase()}${color.slice(1)}`}>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={resetGame}
+                  className="mt-2 rounded-lg font-display"
+                  data-testid="button-play-again"
+                >
+                  <RefreshCw className="w-4 h-4 mr-1" />
+                  Play Again
+                </Button>
+              </Podium>
+            )}
+
             {/* Current Player Status */}
             <div className="flex items-center justify-center mb-4">
               <div className="text-center">
@@ -364,7 +268,8 @@ export default function Game() {
               {PLAYERS.map((color) => {
                 const playerPieces = pieces.filter(p => p.color === color);
                 const finishedPieces = playerPieces.filter(p => p.position === 99).length;
-                
+                const place = finishingOrder.indexOf(color) + 1;
+
                 return (
                   <div 
                     key={color} 
@@ -382,9 +287,33 @@ export default function Game() {
                         {color}
                       </span>
                     </div>
-                    <span className="text-xs text-slate-500 font-mono">
-                      {finishedPieces}/4
-                    </span>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => cycleController(color)}
+                        className="h-6 px-2 text-[10px] font-bold uppercase text-slate-500"
+                        data-testid={`button-controller-${color}`}
+                      >
+                        {controllers[color] ? (
+                          <>
+                            <Bot className="w-3 h-3 mr-1" />
+                            {BOT_STRATEGY_LABELS[controllers[color]!]}
+                          </>
+                        ) : (
+                          "Human"
+                        )}
+                      </Button>
+                      {place > 0 ? (
+                        <span className="text-xs font-display font-bold text-yellow-600" data-testid={`text-place-${color}`}>
+                          {ordinal(place)}
+                        </span>
+                      ) : (
+                        <span className="text-xs text-slate-500 font-mono">
+                          {finishedPieces}/4
+                        </span>
+                      )}
+                    </div>
                   </div>
                 );
               })}
@@ -1,37 +1,83 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
+import { ConnectionBanner } from '@/components/game/ConnectionBanner';
 import { motion } from 'framer-motion';
-import { Users, Dices, ArrowRight } from 'lucide-react';
+import { Users, Dices, ArrowRight, Bot, History, Eye, Server } from 'lucide-react';
 import generatedImage from '@assets/generated_images/light_wooden_table_texture_for_game_background.png';
 import { wsClient } from '@/lib/websocket';
-import { WSResponse, GameRoom, GameMode } from '@shared/schema';
+import { WSResponse, GameRoom, GameMode, ErrorCode } from '@shared/schema';
+import { GAME_MODES, GAME_MODE_LIST } from '@shared/game-modes';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+
+// Join failures where the room is still there to watch, with the toast title
+const WATCHABLE_JOIN_ERRORS: Partial<Record<ErrorCode, string>> = {
+  ROOM_FULL: 'Room Full',
+  GAME_ALREADY_STARTED: 'Game In Progress',
+  ROOM_LOCKED: 'Room Locked',
+};
 
 interface LobbyProps {
   onJoinedRoom: (room: GameRoom, playerId: string) => void;
+  onPlayOffline: () => void;
+  onWatchReplay: (roomCode: string) => void;
 }
 
-export default function Lobby({ onJoinedRoom }: LobbyProps) {
+export default function Lobby({ onJoinedRoom, onPlayOffline, onWatchReplay }: LobbyProps) {
   const { toast } = useToast();
   const [playerName, setPlayerName] = useState('');
   const [roomCode, setRoomCode] = useState('');
-  const [mode, setMode] = useState<'menu' | 'create' | 'join'>('menu');
-  const [gameMode, setGameMode] = useState<'2-player' | '4-player'>('4-player');
+  const [mode, setMode] = useState<'menu' | 'create' | 'join' | 'replay'>('menu');
+  const [gameMode, setGameMode] = useState<GameMode>('4-player');
+  // The last join request, so a full room can be offered for watching instead
+  const joinRequest = useRef<{ id: string; roomCode: string } | null>(null);
+  const [latency, setLatency] = useState<number | null>(wsClient.latency);
+  const serverHost = new URL(wsClient.url).host;
 
   useEffect(() => {
     wsClient.connect();
 
     const unsubscribe = wsClient.onMessage((message: WSResponse) => {
-      if (message.type === 'room_created' || message.type === 'room_joined') {
+      if (message.type === 'room_created' || message.type === 'room_joined' || message.type === 'session_resumed') {
         onJoinedRoom(message.payload.room, message.payload.playerId);
+      } else if (message.type === 'pong') {
+        setLatency(wsClient.latency);
+      } else if (message.type === 'spectating') {
+        onJoinedRoom(message.payload.room, message.payload.spectatorId);
       } else if (message.type === 'error') {
-        toast({
-          title: 'Error',
-          description: message.payload.message,
-          variant: 'destructive',
-        });
+        const { code, requestId } = message.payload;
+        if (code === 'ROOM_NOT_FOUND') {
+          // Most likely a typo; clear the code so it can be re-entered
+          setRoomCode('');
+          toast({
+            title: 'Room Not Found',
+            description: 'Check the code and try again',
+            variant: 'destructive',
+          });
+        } else if (WATCHABLE_JOIN_ERRORS[code] && joinRequest.current?.id === requestId) {
+          const spectateCode = joinRequest.current!.roomCode;
+          toast({
+            title: WATCHABLE_JOIN_ERRORS[code],
+            description: 'You can still watch this game',
+            action: (
+              <ToastAction
+                altText="Watch game"
+                onClick={() => wsClient.send({ type: 'spectate', payload: { roomCode: spectateCode } })}
+                data-testid="button-toast-spectate"
+              >
+                Watch
+              </ToastAction>
+            ),
+          });
+        } else {
+          toast({
+            title: 'Error',
+            description: message.payload.message,
+            variant: 'destructive',
+          });
+        }
       }
     });
 
@@ -69,17 +115,51 @@ export default function Lobby({ onJoinedRoom }: LobbyProps) {
       return;
     }
 
-    wsClient.send({
+    const code = roomCode.trim().toUpperCase();
+    const id = wsClient.send({
       type: 'join',
       payload: {
-        roomCode: roomCode.trim().toUpperCase(),
+        roomCode: code,
         playerName: playerName.trim()
       }
     });
+    joinRequest.current = { id, roomCode: code };
+  };
+
+  // Full and already-started rooms can still be watched
+  const handleSpectate = () => {
+    if (!roomCode.trim()) {
+      toast({
+        title: 'Room Code Required',
+        description: 'Please enter a room code to watch',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    wsClient.send({
+      type: 'spectate',
+      payload: { roomCode: roomCode.trim().toUpperCase() }
+    });
+  };
+
+  const handleWatchReplay = () => {
+    if (!roomCode.trim()) {
+      toast({
+        title: 'Room Code Required',
+        description: 'Please enter the room code of the game',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    onWatchReplay(roomCode.trim().toUpperCase());
   };
 
   return (
     <div className="min-h-screen w-full flex flex-col items-center justify-center p-4 relative overflow-hidden">
+      <ConnectionBanner />
+
       {/* Background */}
       <div 
         className="absolute inset-0 z-0 opacity-40"
@@ -135,6 +215,28 @@ export default function Lobby({ onJoinedRoom }: LobbyProps) {
                   <ArrowRight className="w-5 h-5 mr-2" />
                   Join Room
                 </Button>
+
+                <Button
+                  size="lg"
+                  variant="ghost"
+                  className="w-full font-display text-lg h-14 rounded-xl"
+                  onClick={onPlayOffline}
+                  data-testid="button-play-offline"
+                >
+                  <Bot className="w-5 h-5 mr-2" />
+                  Play Offline
+                </Button>
+
+                <Button
+                  size="lg"
+                  variant="ghost"
+                  className="w-full font-display text-lg h-14 rounded-xl"
+                  onClick={() => setMode('replay')}
+                  data-testid="button-replays"
+                >
+                  <History className="w-5 h-5 mr-2" />
+                  Watch Replay
+                </Button>
               </motion.div>
             )}
 
@@ -165,22 +267,17 @@ export default function Lobby({ onJoinedRoom }: LobbyProps) {
                     Game Mode
                   </label>
                   <div className="grid grid-cols-2 gap-3">
-                    <Button
-                      variant={gameMode === '2-player' ? 'default' : 'outline'}
-                      onClick={() => setGameMode('2-player')}
-                      className="h-12 rounded-xl font-display"
-                      data-testid="button-2-player"
-                    >
-                      2 Players
-                    </Button>
-                    <Button
-                      variant={gameMode === '4-player' ? 'default' : 'outline'}
-                      onClick={() => setGameMode('4-player')}
-                      className="h-12 rounded-xl font-display"
-                      data-testid="button-4-player"
-                    >
-                      4 Players
-                    </Button>
+                    {GAME_MODE_LIST.map(option => (
+                      <Button
+                        key={option}
+                        variant={gameMode === option ? 'default' : 'outline'}
+                        onClick={() => setGameMode(option)}
+                        className="h-12 rounded-xl font-display"
+                        data-testid={`button-${option}`}
+                      >
+                        {GAME_MODES[option].label}
+                      </Button>
+                    ))}
                   </div>
                 </div>
 
@@ -257,8 +354,69 @@ export default function Lobby({ onJoinedRoom }: LobbyProps) {
                     Join
                   </Button>
                 </div>
+
+                {wsClient.hasCapability('spectate') && (
+                  <Button
+                    variant="ghost"
+                    onClick={handleSpectate}
+                    className="w-full h-12 rounded-xl font-display"
+                    data-testid="button-spectate"
+                  >
+                    <Eye className="w-4 h-4 mr-2" />
+                    Just Watch
+                  </Button>
+                )}
               </motion.div>
             )}
+
+            {/* Watch Replay */}
+            {mode === 'replay' && (
+              <motion.div
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                className="space-y-4"
+              >
+                <div>
+                  <label className="block text-sm font-bold text-slate-600 mb-2 uppercase tracking-wide">
+                    Room Code
+                  </label>
+                  <Input
+                    placeholder="XXXXXX"
+                    value={roomCode}
+                    onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
+                    onKeyDown={(e) => e.key === 'Enter' && handleWatchReplay()}
+                    maxLength={6}
+                    className="h-12 rounded-xl text-lg font-mono tracking-widest text-center uppercase"
+                    data-testid="input-replay-room-code"
+                  />
+                </div>
+
+                <div className="flex gap-3">
+                  <Button
+                    variant="outline"
+                    onClick={() => setMode('menu')}
+                    className="flex-1 h-12 rounded-xl"
+                    data-testid="button-back-replay"
+                  >
+                    Back
+                  </Button>
+                  <Button
+                    onClick={handleWatchReplay}
+                    className="flex-1 h-12 rounded-xl font-display"
+                    data-testid="button-watch"
+                  >
+                    Watch
+                  </Button>
+                </div>
+              </motion.div>
+            )}
+
+            {/* Connected server */}
+            <div className="mt-6 flex items-center justify-center gap-1.5 text-xs text-slate-400" data-testid="text-server-info">
+              <Server className="w-3.5 h-3.5" />
+              <span className="font-mono">{serverHost}</span>
+              {latency !== null && <span data-testid="text-latency">· {latency} ms</span>}
+            </div>
           </Card>
         </motion.div>
       </div>
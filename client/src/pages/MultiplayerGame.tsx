@@ -1,65 +1,135 @@
 import React, { useState, useEffect } from 'react';
 import { Board } from '@/components/game/Board';
 import { Dice } from '@/components/game/Dice';
+import { DiceAuditPanel } from '@/components/game/DiceAuditPanel';
+import { ChatPanel } from '@/components/game/ChatPanel';
+import { ConnectionBanner } from '@/components/game/ConnectionBanner';
+import { ConnectionQuality } from '@/components/game/ConnectionQuality';
+import { Podium } from '@/components/game/Podium';
+import { QuickGameStatus } from '@/components/game/QuickGameStatus';
 import { GamePiece, PlayerColor, getCoordinates } from '@/lib/ludo-logic';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Trophy, LogOut, Users } from 'lucide-react';
+import { Trophy, LogOut, Users, WifiOff, Bot, History, Eye } from 'lucide-react';
 import { motion } from 'framer-motion';
 import generatedImage from '@assets/generated_images/light_wooden_table_texture_for_game_background.png';
 import { useToast } from '@/hooks/use-toast';
-import { cn } from '@/lib/utils';
+import { cn, ordinal } from '@/lib/utils';
 import { wsClient } from '@/lib/websocket';
-import { GameRoom, WSResponse } from '@shared/schema';
+import { RoomSync } from '@/lib/room-sync';
+import { EMOTE_DURATION_MS } from '@/lib/emotes';
+import { Emote, ErrorCode, GameRoom, WSResponse } from '@shared/schema';
+import { canMovePiece, createEngineContext, getCurrentColor, getMovingColor, getPlaces, getPlayerForColor, getScore, getTurnPlayer } from '@shared/ludo-engine';
+import { GAME_MODES } from '@shared/game-modes';
+
+const STALE_STATE_ERRORS: ErrorCode[] = ['NOT_YOUR_TURN', 'ALREADY_ROLLED', 'ROLL_FIRST', 'INVALID_PIECE', 'INVALID_MOVE', 'GAME_OVER'];
 
 interface MultiplayerGameProps {
   initialRoom: GameRoom;
   playerId: string;
   onLeave: () => void;
+  onWatchReplay: (roomCode: string) => void;
 }
 
-export default function MultiplayerGame({ initialRoom, playerId, onLeave }: MultiplayerGameProps) {
+export default function MultiplayerGame({ initialRoom, playerId, onLeave, onWatchReplay }: MultiplayerGameProps) {
   const { toast } = useToast();
   const [room, setRoom] = useState<GameRoom>(initialRoom);
+  const [roomSync] = useState(() => new RoomSync(initialRoom));
   const [isRolling, setIsRolling] = useState(false);
   const [isTurnTransition, setIsTurnTransition] = useState(false);
   const [previousTurnIndex, setPreviousTurnIndex] = useState<number>(initialRoom.gameState.currentTurnIndex);
   const [displayDiceValue, setDisplayDiceValue] = useState<number>(1);
+  const [emotes, setEmotes] = useState<Partial<Record<PlayerColor, Emote>>>({});
+  const [latencies, setLatencies] = useState<Record<string, number>>({});
 
-  const currentPlayer = room.players[room.gameState.currentTurnIndex];
+  const engineContext = createEngineContext(room);
+  const currentColor = getCurrentColor(room.gameState, engineContext);
+  const currentPlayer = getTurnPlayer(room)!;
+  // Named alongside the player when they play more than one colour
+  const playingColor = currentPlayer.colors.length > 1 ? currentColor : null;
   const myPlayer = room.players.find(p => p.id === playerId);
+  // Spectators are connected to the room without a seat in it
+  const isSpectator = !myPlayer;
   const isMyTurn = currentPlayer.id === playerId;
+  const places = getPlaces(room.gameState, engineContext);
 
 useEffect(() => {
   let transitionTimer: NodeJS.Timeout | null = null;
+  let placedCount = roomSync.room.gameState.finishingOrder.length;
 
-  const unsubscribe = wsClient.onMessage((message: WSResponse) => {
-    if (message.type === 'room_updated') {
-      const newRoom = message.payload.room;
+  const showRoom = (newRoom: GameRoom) => {
+    // Update displayed dice value when a new roll comes in
+    if (newRoom.gameState.diceValue !== null) {
+      setDisplayDiceValue(newRoom.gameState.diceValue);
+    }
+
+    // Check if turn changed
+    if (newRoom.gameState.currentTurnIndex !== previousTurnIndex) {
+      setPreviousTurnIndex(newRoom.gameState.currentTurnIndex);
       
-      // Update displayed dice value when a new roll comes in
-      if (newRoom.gameState.diceValue !== null) {
-        setDisplayDiceValue(newRoom.gameState.diceValue);
-      }
+      // Clear any existing timer
+      if (transitionTimer) clearTimeout(transitionTimer);
+      // Show turn transition for 1.5 seconds
+      transitionTimer = setTimeout(() => {
+        setIsTurnTransition(false);
+      }, 1500);
+    }
 
-      // Check if turn changed
-      if (newRoom.gameState.currentTurnIndex !== previousTurnIndex) {
-        setPreviousTurnIndex(newRoom.gameState.currentTurnIndex);
-        
-        // Clear any existing timer
-        if (transitionTimer) clearTimeout(transitionTimer);
-        // Show turn transition for 1.5 seconds
-        transitionTimer = setTimeout(() => {
-          setIsTurnTransition(false);
-        }, 1500);
-      }
+    // Announce each player who finishes while the rest play on
+    const { finishingOrder, winner } = newRoom.gameState;
+    if (finishingOrder.length > placedCount && !winner) {
+      // Partners finish together and share a place
+      const newPlaces = getPlaces(newRoom.gameState, createEngineContext(newRoom));
+      const colors = newPlaces[newPlaces.length - 1];
+      const names = Array.from(new Set(colors.map(color => getPlayerForColor(newRoom, color)?.name || color)));
+      toast({
+        title: '🏁 Finished!',
+        description: `${names.join(' & ')} finished ${ordinal(newPlaces.length)}`,
+        duration: 3000,
+      });
+    }
+    placedCount = finishingOrder.length;
 
-      setRoom(newRoom);
+    setRoom(newRoom);
+  };
+
+  const unsubscribe = wsClient.onMessage((message: WSResponse) => {
+    if (message.type === 'room_updated') {
+      showRoom(roomSync.reset(message.payload.room));
+    } else if (message.type === 'room_delta') {
+      const newRoom = roomSync.applyDelta(message.payload);
+      if (newRoom) showRoom(newRoom);
+    } else if (message.type === 'session_resumed') {
+      // Back after a dropped connection: take the server's copy of the game
+      setPreviousTurnIndex(message.payload.room.gameState.currentTurnIndex);
+      setRoom(roomSync.reset(message.payload.room));
+    } else if (message.type === 'resume_failed') {
+      toast({
+        title: 'Disconnected',
+        description: 'Your seat in this game has expired',
+        variant: 'destructive',
+      });
+      onLeave();
+    } else if (message.type === 'removed') {
+      toast({
+        title: 'Removed from game',
+        description: message.payload.message,
+        variant: 'destructive',
+      });
+      onLeave();
+    } else if (message.type === 'room_closed') {
+      toast({
+        title: 'Room closed',
+        description: message.payload.message,
+        variant: message.payload.reason === 'finished' ? 'default' : 'destructive',
+      });
+      onLeave();
     } else if (message.type === 'piece_captured') {
       // Show capture notification
       const capturedPiece = message.payload.capturedPiece;
-      const capturedPlayer = room.players.find(p => p.color === capturedPiece.color);
-      const currentPlayerName = room.players[room.gameState.currentTurnIndex]?.name || 'Player';
+      // The move itself arrived just before, so the capturer still has the turn
+      const capturedPlayer = getPlayerForColor(roomSync.room, capturedPiece.color);
+      const currentPlayerName = getTurnPlayer(roomSync.room)?.name || 'Player';
       
       toast({
         title: '💥 Piece Captured!',
@@ -67,10 +137,16 @@ useEffect(() => {
         className: 'bg-red-500 text-white border-red-600',
         duration: 3000,
       });
-      
-      // Update room state
-      setRoom(message.payload.room);
     } else if (message.type === 'error') {
+      const { code } = message.payload;
+      if (code === 'NOT_IN_ROOM') {
+        onLeave();
+        return;
+      }
+      // These mean our copy of the board disagrees with the server's
+      if (STALE_STATE_ERRORS.includes(code)) {
+        wsClient.send({ type: 'sync' });
+      }
       toast({
         title: 'Error',
         description: message.payload.message,
@@ -83,8 +159,41 @@ useEffect(() => {
     unsubscribe();
     if (transitionTimer) clearTimeout(transitionTimer);  // Clear timer on cleanup
   };
-}, [toast, previousTurnIndex, room.players, room.gameState.currentTurnIndex]);
+}, [toast, onLeave, roomSync, previousTurnIndex, room.players, room.gameState.currentTurnIndex]);
+
+
+  // The server reports every player's round trip on each heartbeat
+  useEffect(() => {
+    const unsubscribe = wsClient.onMessage((message: WSResponse) => {
+      if (message.type === 'latency') {
+        setLatencies(message.payload.players);
+      }
+    });
 
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
+  // Pop each emote over the sender's base for a moment
+  useEffect(() => {
+    const timers: NodeJS.Timeout[] = [];
+
+    const unsubscribe = wsClient.onMessage((message: WSResponse) => {
+      if (message.type !== 'emote') return;
+
+      const { color, emote } = message.payload;
+      setEmotes(prev => ({ ...prev, [color]: emote }));
+      timers.push(setTimeout(() => {
+        setEmotes(prev => prev[color] === emote ? { ...prev, [color]: undefined } : prev);
+      }, EMOTE_DURATION_MS));
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach(clearTimeout);
+    };
+  }, []);
 
   const rollDice = async () => {
     if (!isMyTurn || isRolling || room.gameState.waitingForMove) return;
@@ -96,7 +205,7 @@ useEffect(() => {
   };
 
   const handlePieceClick = (piece: GamePiece) => {
-    if (!isMyTurn || !canMovePiece(piece)) return;
+    if (!isMyTurn || !isPieceMovable(piece)) return;
 
     wsClient.send({
       type: 'move_piece',
@@ -104,19 +213,12 @@ useEffect(() => {
     });
   };
 
-  const canMovePiece = (piece: GamePiece): boolean => {
+  const isPieceMovable = (piece: GamePiece): boolean => {
     if (!isMyTurn || !room.gameState.waitingForMove) return false;
-    if (piece.color !== myPlayer?.color) return false;
+    // Usually our own colour, or our partner's once ours are all home
+    if (piece.color !== getMovingColor(room.gameState, engineContext)) return false;
 
-    const roll = room.gameState.diceValue || 0;
-    
-    if (piece.position === -1) {
-      return roll === 6;
-    }
-    
-    if (piece.position + roll > 57) return false;
-
-    return true;
+    return canMovePiece(room.gameState, piece, room.gameState.diceValue || 0, engineContext);
   };
 
   const handleLeave = () => {
@@ -124,8 +226,17 @@ useEffect(() => {
     onLeave();
   };
 
+  const nameOf = (color: PlayerColor) => getPlayerForColor(room, color)?.name || color;
+
+  const handleWatchReplay = () => {
+    wsClient.send({ type: 'leave' });
+    onWatchReplay(room.code);
+  };
+
   return (
     <div className="h-screen w-full flex flex-col items-center justify-center p-2 relative overflow-hidden">
+      <ConnectionBanner />
+
       {/* Background */}
       <div 
         className="absolute inset-0 z-0 opacity-40"
@@ -145,14 +256,18 @@ useEffect(() => {
           <Board 
             pieces={room.gameState.pieces} 
             onPieceClick={handlePieceClick}
-            currentTurn={currentPlayer.color || 'red'}
-            canMovePiece={canMovePiece}
+            currentTurn={currentColor}
+            canMovePiece={isPieceMovable}
             gameMode={room.gameMode}
             diceValue={displayDiceValue}
             isRolling={isRolling}
-            onRollDice={rollDice}
+            onRollDice={isSpectator ? undefined : rollDice}
             canRollDice={isMyTurn && !room.gameState.waitingForMove && !room.gameState.winner && !isTurnTransition}
             players={room.players}
+            showStarSpots={room.rules.safeSpots === 'standard'}
+            emotes={emotes}
+            turnDeadline={room.gameState.turnDeadline}
+            turnSeconds={room.turnTimer.seconds}
           />
         </div>
 
@@ -166,18 +281,20 @@ useEffect(() => {
               </Button>
             </div>
 
-            {/* Winner */}
+            {/* Results */}
             {room.gameState.winner && (
-              <motion.div
-                initial={{ scale: 0.8, opacity: 0 }}
-                animate={{ scale: 1, opacity: 1 }}
-                className="mb-4 p-4 bg-gradient-to-r from-yellow-400 to-orange-400 rounded-xl text-center"
-              >
-                <Trophy className="w-8 h-8 text-white mx-auto mb-1" />
-                <h2 className="text-lg font-display font-bold text-white capitalize">
-                  {room.players.find(p => p.color === room.gameState.winner)?.name} Wins!
-                </h2>
-              </motion.div>
+              <Podium places={places} nameOf={nameOf}>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={handleWatchReplay}
+                  className="mt-2 rounded-lg font-display"
+                  data-testid="button-watch-replay"
+                >
+                  <History className="w-4 h-4 mr-1" />
+                  Watch Replay
+                </Button>
+              </Podium>
             )}
 
             {/* Current Player Status */}
@@ -185,18 +302,23 @@ useEffect(() => {
               <div className="text-center">
                 <p className="text-xs text-slate-500 font-medium mb-1 uppercase tracking-wide">Current Turn</p>
                 <motion.div 
-                  key={currentPlayer.id}
+                  key={currentColor}
                   initial={{ scale: 0.8, opacity: 0 }}
                   animate={{ scale: 1, opacity: 1 }}
                   className={cn(
                     "text-lg font-display font-bold px-4 py-1.5 rounded-full text-white shadow-lg",
                     isMyTurn && "ring-2 ring-slate-800 ring-offset-1"
                   )}
-                  style={{ backgroundColor: `var(--color-ludo-${currentPlayer.color})` }}
+                  style={{ backgroundColor: `var(--color-ludo-${currentColor})` }}
                 >
                   {currentPlayer.name}
                   {isMyTurn && " (You)"}
                 </motion.div>
+                {playingColor && (
+                  <p className="text-xs font-bold text-slate-500 mt-1 capitalize" data-testid="text-turn-color">
+                    Playing {playingColor}
+                  </p>
+                )}
               </div>
             </div>
 
@@ -210,6 +332,7 @@ useEffect(() => {
               >
                 <p className="text-white font-display font-bold text-sm">
                   {isMyTurn ? "Your Turn!" : `${currentPlayer.name}'s Turn`}
+                  {playingColor && <span className="capitalize"> ({playingColor})</span>}
                 </p>
                 <div className="mt-1 h-1 bg-white/30 rounded-full overflow-hidden">
                   <motion.div
@@ -231,7 +354,7 @@ useEffect(() => {
                     Mode
                   </span>
                   <span className="font-display font-bold text-slate-700 text-sm">
-                    {room.gameMode === '2-player' ? '2P' : '4P'}
+                    {GAME_MODES[room.gameMode].shortLabel}
                   </span>
                 </div>
               </div>
@@ -242,18 +365,60 @@ useEffect(() => {
                     To Win
                   </span>
                   <span className="font-display font-bold text-slate-700 text-sm">
-                    All Home
+                    {room.rules.quick ? 'Top Score' : 'All Home'}
+                  </span>
+                </div>
+              </div>
+              <div className="bg-slate-100 p-2 rounded-lg flex items-center gap-2 col-span-2" data-testid="text-spectator-count">
+                <Eye className="w-4 h-4 text-slate-400" />
+                <div className="flex flex-col">
+                  <span className="text-[10px] font-bold text-slate-400 uppercase">
+                    Watching
+                  </span>
+                  <span className="font-display font-bold text-slate-700 text-sm">
+                    {room.spectatorCount}{isSpectator && " (incl. you)"}
                   </span>
                 </div>
               </div>
             </div>
 
+            {/* Quick game limits */}
+            {room.rules.quick && !room.gameState.winner && (
+              <div className="mb-4">
+                <QuickGameStatus
+                  endsAt={room.gameState.endsAt}
+                  turnsPlayed={room.gameState.turnsPlayed}
+                  turnLimit={room.rules.quickTurns}
+                />
+              </div>
+            )}
+
+            {/* Dice Audit */}
+            {room.diceMode === 'provably-fair' && (
+              <div className="mb-4">
+                <DiceAuditPanel roomCode={room.code} audit={room.diceAudit} />
+              </div>
+            )}
+
+            {/* Chat */}
+            {wsClient.hasCapability('chat') && (
+              <div className="mb-4">
+                <ChatPanel
+                  playerId={playerId}
+                  players={room.players}
+                  canEmote={!isSpectator && wsClient.hasCapability('emotes')}
+                />
+              </div>
+            )}
+
             {/* Players List */}
             <div className="space-y-1.5">
               <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wide mb-2">Players</p>
               {room.players.map((player) => {
-                const playerPieces = room.gameState.pieces.filter(p => p.color === player.color);
+                const playerPieces = room.gameState.pieces.filter(p => player.colors.includes(p.color));
                 const finishedPieces = playerPieces.filter(p => p.position === 99).length;
+                const place = places.findIndex(colors => player.colors.some(c => colors.includes(c))) + 1;
+                const score = player.colors.reduce((sum, color) => sum + getScore(room.gameState, color), 0);
                 
                 return (
                   <div 
@@ -265,18 +430,41 @@ useEffect(() => {
                     data-testid={`player-info-${player.color}`}
                   >
                     <div className="flex items-center gap-2">
-                      <div 
-                        className="w-5 h-5 rounded-full border-2 border-white shadow-sm"
-                        style={{ backgroundColor: `var(--color-ludo-${player.color})` }}
-                      />
+                      <div className="flex -space-x-1.5">
+                        {player.colors.map(color => (
+                          <div
+                            key={color}
+                            className="w-5 h-5 rounded-full border-2 border-white shadow-sm"
+                            style={{ backgroundColor: `var(--color-ludo-${color})` }}
+                          />
+                        ))}
+                      </div>
                       <span className="font-display font-bold text-slate-700 text-sm">
                         {player.name}
                         {player.id === playerId && " (You)"}
                       </span>
+                      {player.bot && <Bot className="w-3.5 h-3.5 text-slate-400" />}
+                      {!player.connected && <WifiOff className="w-3.5 h-3.5 text-slate-400" />}
+                      {player.connected && latencies[player.id] !== undefined && (
+                        <ConnectionQuality latency={latencies[player.id]} />
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {room.rules.quick && (
+                        <span className="text-xs font-mono font-bold text-amber-600" data-testid={`text-score-${player.color}`}>
+                          {score} pts
+                        </span>
+                      )}
+                      {place > 0 ? (
+                        <span className="text-xs font-display font-bold text-yellow-600" data-testid={`text-place-${player.color}`}>
+                          {ordinal(place)}
+                        </span>
+                      ) : (
+                        <span className="text-xs text-slate-500 font-mono">
+                          {finishedPieces}/{playerPieces.length}
+                        </span>
+                      )}
                     </div>
-                    <span className="text-xs text-slate-500 font-mono">
-                      {finishedPieces}/4
-                    </span>
                   </div>
                 );
               })}
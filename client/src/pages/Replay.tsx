@@ -0,0 +1,186 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Board } from '@/components/game/Board';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Slider } from '@/components/ui/slider';
+import { LogOut, Play, Pause, SkipBack, SkipForward, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import generatedImage from '@assets/generated_images/light_wooden_table_texture_for_game_background.png';
+import { cn } from '@/lib/utils';
+import { buildReplayFrames, describeEvent } from '@/lib/replay';
+import { GameReplay, PlayerColor } from '@shared/schema';
+
+const SPEEDS = [0.5, 1, 2, 4];
+const FRAME_MS = 1000;
+
+interface ReplayProps {
+  roomCode: string;
+  onLeave: () => void;
+}
+
+export default function Replay({ roomCode, onLeave }: ReplayProps) {
+  const { data: replay, isLoading, error } = useQuery<GameReplay>({
+    queryKey: ['/api/games', roomCode, 'events'],
+  });
+
+  const frames = useMemo(() => replay ? buildReplayFrames(replay) : [], [replay]);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const lastFrame = Math.max(frames.length - 1, 0);
+
+  // Autoplay: advance one frame per tick and stop at the end
+  useEffect(() => {
+    if (!playing) return;
+    if (frameIndex >= lastFrame) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setFrameIndex(i => i + 1), FRAME_MS / speed);
+    return () => clearTimeout(timer);
+  }, [playing, frameIndex, lastFrame, speed]);
+
+  const stepTo = (index: number) => {
+    setPlaying(false);
+    setFrameIndex(Math.min(Math.max(index, 0), lastFrame));
+  };
+
+  const nameOf = (color: PlayerColor) =>
+    replay?.players.find(p => p.colors.includes(color))?.name || color;
+
+  const frame = frames[frameIndex];
+
+  return (
+    <div className="h-screen w-full flex flex-col items-center justify-center p-2 relative overflow-hidden">
+      {/* Background */}
+      <div
+        className="absolute inset-0 z-0 opacity-40"
+        style={{
+          backgroundImage: `url(${generatedImage})`,
+          backgroundSize: 'cover',
+          backgroundPosition: 'center',
+        }}
+      />
+      <div className="absolute inset-0 bg-white/60 backdrop-blur-[2px] z-0" />
+
+      {(isLoading || error || !replay || !frame) ? (
+        <Card className="relative z-10 p-8 bg-white/90 backdrop-blur-md shadow-2xl border-0 rounded-3xl text-center">
+          {isLoading ? (
+            <Loader2 className="w-8 h-8 text-slate-400 animate-spin mx-auto" />
+          ) : (
+            <p className="font-display text-slate-600 mb-4">No game found for room {roomCode}</p>
+          )}
+          {!isLoading && (
+            <Button onClick={onLeave} className="rounded-xl" data-testid="button-replay-back">
+              Back
+            </Button>
+          )}
+        </Card>
+      ) : (
+        <div className="relative z-10 w-full h-full max-w-[1600px] grid grid-cols-1 xl:grid-cols-[1fr_320px] gap-4 items-center">
+
+          {/* Left: Board */}
+          <div className="flex justify-center items-center h-full px-4 py-2">
+            <Board
+              pieces={frame.pieces}
+              onPieceClick={() => {}}
+              currentTurn={frame.turn}
+              canMovePiece={() => false}
+              gameMode={replay.gameMode}
+              diceValue={frame.diceValue}
+              players={replay.players}
+              showStarSpots={replay.rules.safeSpots === 'standard'}
+            />
+          </div>
+
+          {/* Right: Playback controls */}
+          <div className="flex flex-col gap-3 h-full justify-center">
+            <Card className="p-4 bg-white/80 backdrop-blur-md shadow-xl border-0 rounded-2xl">
+              <div className="flex items-center justify-between mb-3">
+                <h1 className="text-xl font-display font-bold text-slate-800">Replay {replay.code}</h1>
+                <Button variant="ghost" size="icon" onClick={onLeave} data-testid="button-leave-replay">
+                  <LogOut className="w-4 h-4 text-slate-500" />
+                </Button>
+              </div>
+
+              {!replay.finished && (
+                <p className="text-xs text-slate-500 mb-3">This game is still in progress.</p>
+              )}
+
+              <div className="flex items-center justify-center gap-1 mb-3">
+                <Button variant="outline" size="icon" onClick={() => stepTo(0)} data-testid="button-replay-start">
+                  <SkipBack className="w-4 h-4" />
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => stepTo(frameIndex - 1)} data-testid="button-replay-prev">
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  onClick={() => {
+                    if (frameIndex >= lastFrame) setFrameIndex(0);
+                    setPlaying(!playing);
+                  }}
+                  data-testid="button-replay-play"
+                >
+                  {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => stepTo(frameIndex + 1)} data-testid="button-replay-next">
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => stepTo(lastFrame)} data-testid="button-replay-end">
+                  <SkipForward className="w-4 h-4" />
+                </Button>
+              </div>
+
+              <Slider
+                value={[frameIndex]}
+                min={0}
+                max={lastFrame}
+                step={1}
+                onValueChange={([value]) => stepTo(value)}
+                className="mb-2"
+                data-testid="slider-replay-position"
+              />
+              <p className="text-xs text-slate-500 font-mono text-center mb-3">
+                {frameIndex} / {lastFrame}
+              </p>
+
+              <div className="grid grid-cols-4 gap-2 mb-4">
+                {SPEEDS.map(s => (
+                  <Button
+                    key={s}
+                    size="sm"
+                    variant={speed === s ? 'default' : 'outline'}
+                    onClick={() => setSpeed(s)}
+                    className="rounded-lg font-display"
+                    data-testid={`button-replay-speed-${s}`}
+                  >
+                    {s}x
+                  </Button>
+                ))}
+              </div>
+
+              {/* What happened in this step */}
+              <div className="space-y-1.5">
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wide mb-2">This Step</p>
+                {frame.events.map(event => (
+                  <div
+                    key={event.seq}
+                    className={cn(
+                      "p-2 rounded-lg bg-slate-100 text-sm font-body text-slate-700",
+                      event.type === 'won' && "bg-gradient-to-r from-yellow-400 to-orange-400 text-white font-bold"
+                    )}
+                    data-testid={`replay-event-${event.seq}`}
+                  >
+                    {describeEvent(event, nameOf)}
+                  </div>
+                ))}
+              </div>
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,43 @@
 import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 import { motion } from 'framer-motion';
-import { Copy, Check, Crown, LogOut } from 'lucide-react';
+import { Copy, Check, Crown, LogOut, WifiOff, Bot, X, ChevronDown, ChevronUp, Eye, Lock, LockOpen, UserX } from 'lucide-react';
+import { RulesPanel } from '@/components/game/RulesPanel';
+import { ChatPanel } from '@/components/game/ChatPanel';
+import { ConnectionBanner } from '@/components/game/ConnectionBanner';
 import generatedImage from '@assets/generated_images/light_wooden_table_texture_for_game_background.png';
 import { wsClient } from '@/lib/websocket';
-import { GameRoom, PlayerColor, WSResponse } from '@shared/schema';
+import { RoomSync } from '@/lib/room-sync';
+import { BotStrategy, DiceMode, GameRoom, HostChangeReason, PlayerColor, RoomRules, TimeoutAction, TurnTimerSettings, WSResponse } from '@shared/schema';
+import { BOT_STRATEGIES, BOT_STRATEGY_LABELS } from '@shared/ludo-bots';
+import { GAME_MODES } from '@shared/game-modes';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 
-const COLORS_4P: PlayerColor[] = ['red', 'green', 'yellow', 'blue'];
-const COLORS_2P: PlayerColor[] = ['red', 'yellow'];
+const DICE_MODES: Array<{ value: DiceMode; label: string }> = [
+  { value: 'weighted', label: 'Lucky' },
+  { value: 'fair', label: 'Fair' },
+  { value: 'provably-fair', label: 'Provably Fair' },
+];
+
+const QUICK_MINUTES = [0, 5, 10, 15];
+const QUICK_TURNS = [0, 40, 80, 120];
+
+const TURN_SECONDS = [0, 15, 30, 60];
+const MAX_TIMEOUTS = [1, 2, 3, 5];
+
+const TIMEOUT_ACTIONS: Array<{ value: TimeoutAction; label: string }> = [
+  { value: 'bot', label: 'Bot Takes Over' },
+  { value: 'remove', label: 'Remove Player' },
+];
+
+const HOST_CHANGE_REASONS: Record<HostChangeReason, string> = {
+  transferred: 'The host handed over the room',
+  left: 'The host left the room',
+  disconnected: 'The host lost their connection',
+};
 
 interface WaitingRoomProps {
   initialRoom: GameRoom;
@@ -22,20 +49,74 @@ interface WaitingRoomProps {
 export default function WaitingRoom({ initialRoom, playerId, onGameStart, onLeave }: WaitingRoomProps) {
   const { toast } = useToast();
   const [room, setRoom] = useState<GameRoom>(initialRoom);
+  const [roomSync] = useState(() => new RoomSync(initialRoom));
   const [copied, setCopied] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+  const [clientSeed, setClientSeed] = useState(initialRoom.diceAudit.clientSeeds[playerId] || '');
 
   const currentPlayer = room.players.find(p => p.id === playerId);
-  const isHost = room.players[0]?.id === playerId;
-  const availableColors = room.gameMode === '2-player' ? COLORS_2P : COLORS_4P;
-  const maxPlayers = room.gameMode === '2-player' ? 2 : 4;
+  // Spectators are connected to the room without a seat in it
+  const isSpectator = !currentPlayer;
+  const isHost = room.hostId === playerId;
+  const { colors: availableColors, minPlayers, maxPlayers, teams, controlsTeam, label: modeLabel } = GAME_MODES[room.gameMode];
+  // When one player plays a whole team there are no partners to show
+  const teamOf = (color: PlayerColor | null) => teams && !controlsTeam && color ? teams.findIndex(team => team.includes(color)) + 1 : 0;
 
   useEffect(() => {
     const unsubscribe = wsClient.onMessage((message: WSResponse) => {
       if (message.type === 'room_updated') {
-        setRoom(message.payload.room);
+        setRoom(roomSync.reset(message.payload.room));
+      } else if (message.type === 'room_delta') {
+        const newRoom = roomSync.applyDelta(message.payload);
+        if (newRoom) setRoom(newRoom);
+      } else if (message.type === 'session_resumed') {
+        // The game may have started while we were reconnecting
+        if (message.payload.room.gameState.started) {
+          onGameStart(message.payload.room);
+        } else {
+          setRoom(roomSync.reset(message.payload.room));
+        }
       } else if (message.type === 'game_started') {
         onGameStart(message.payload.room);
+      } else if (message.type === 'resume_failed') {
+        toast({
+          title: 'Disconnected',
+          description: 'Your seat in this room has expired',
+          variant: 'destructive',
+        });
+        onLeave();
+      } else if (message.type === 'removed') {
+        toast({
+          title: 'Removed from room',
+          description: message.payload.message,
+          variant: 'destructive',
+        });
+        onLeave();
+      } else if (message.type === 'host_changed') {
+        // The room update naming the new host arrives first
+        const { hostId, reason } = message.payload;
+        const host = roomSync.room.players.find(p => p.id === hostId);
+        toast({
+          title: hostId === playerId ? 'You are now the host' : `${host?.name || 'Someone else'} is now the host`,
+          description: HOST_CHANGE_REASONS[reason],
+        });
+      } else if (message.type === 'room_closed') {
+        toast({
+          title: 'Room closed',
+          description: message.payload.message,
+          variant: 'destructive',
+        });
+        onLeave();
       } else if (message.type === 'error') {
+        const { code } = message.payload;
+        if (code === 'NOT_IN_ROOM') {
+          onLeave();
+          return;
+        }
+        // Someone else got there first; fetch the room as it is now
+        if (code === 'COLOR_TAKEN' || code === 'NOT_HOST' || code === 'GAME_ALREADY_STARTED') {
+          wsClient.send({ type: 'sync' });
+        }
         toast({
           title: 'Error',
           description: message.payload.message,
@@ -47,7 +128,7 @@ export default function WaitingRoom({ initialRoom, playerId, onGameStart, onLeav
     return () => {
       unsubscribe();
     };
-  }, [onGameStart, toast]);
+  }, [onGameStart, onLeave, toast, roomSync, playerId]);
 
   const handleCopyCode = () => {
     navigator.clipboard.writeText(room.code);
@@ -70,6 +151,70 @@ export default function WaitingRoom({ initialRoom, playerId, onGameStart, onLeav
     wsClient.send({ type: 'ready' });
   };
 
+  const handleRulesChange = (rules: Partial<RoomRules>) => {
+    wsClient.send({
+      type: 'set_rules',
+      payload: { rules }
+    });
+  };
+
+  const handleDiceModeChange = (diceMode: DiceMode) => {
+    wsClient.send({
+      type: 'set_dice_mode',
+      payload: { diceMode }
+    });
+  };
+
+  const handleTurnTimerChange = (turnTimer: Partial<TurnTimerSettings>) => {
+    wsClient.send({
+      type: 'set_turn_timer',
+      payload: { turnTimer }
+    });
+  };
+
+  const handleSaveClientSeed = () => {
+    if (!clientSeed.trim()) return;
+    wsClient.send({
+      type: 'set_client_seed',
+      payload: { clientSeed: clientSeed.trim() }
+    });
+  };
+
+  const handleAddBot = (strategy: BotStrategy) => {
+    wsClient.send({
+      type: 'add_bot',
+      payload: { strategy }
+    });
+  };
+
+  const handleRemoveBot = (botId: string) => {
+    wsClient.send({
+      type: 'remove_bot',
+      payload: { botId }
+    });
+  };
+
+  const handleKick = (targetId: string) => {
+    wsClient.send({
+      type: 'kick_player',
+      payload: { playerId: targetId }
+    });
+  };
+
+  const handleTransferHost = (targetId: string) => {
+    wsClient.send({
+      type: 'transfer_host',
+      payload: { playerId: targetId }
+    });
+  };
+
+  const handleToggleLock = () => {
+    wsClient.send({
+      type: 'lock_room',
+      payload: { locked: !room.locked }
+    });
+  };
+
   const handleStart = () => {
     wsClient.send({ type: 'start_game' });
   };
@@ -79,10 +224,36 @@ export default function WaitingRoom({ initialRoom, playerId, onGameStart, onLeav
     onLeave();
   };
 
-  const canStart = room.players.length >= 2 && room.players.every(p => p.color && p.ready);
+  const renderColorButton = (color: PlayerColor) => {
+    const taken = room.players.some(p => p.colors.includes(color) && p.id !== playerId);
+    return (
+      <button
+        key={color}
+        onClick={() => !taken && handleChooseColor(color)}
+        disabled={taken}
+        className={cn(
+          "aspect-square rounded-2xl border-4 transition-all shadow-md relative",
+          taken ? "opacity-30 cursor-not-allowed" : "hover:scale-110 cursor-pointer border-white",
+          currentPlayer?.colors.includes(color) && "ring-4 ring-slate-800 ring-offset-2"
+        )}
+        style={{ backgroundColor: `var(--color-ludo-${color})` }}
+        data-testid={`button-color-${color}`}
+      >
+        {taken && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="w-1 h-full bg-slate-800 rotate-45" />
+          </div>
+        )}
+      </button>
+    );
+  };
+
+  const canStart = room.players.length >= minPlayers && room.players.every(p => p.color && p.ready);
 
   return (
     <div className="min-h-screen w-full flex flex-col items-center justify-center p-4 relative overflow-hidden">
+      <ConnectionBanner />
+
       {/* Background */}
       <div 
         className="absolute inset-0 z-0 opacity-40"
@@ -119,10 +290,30 @@ export default function WaitingRoom({ initialRoom, playerId, onGameStart, onLeav
                 >
                   {copied ? <Check className="w-5 h-5 text-green-500" /> : <Copy className="w-5 h-5" />}
                 </Button>
+                {isHost ? (
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={handleToggleLock}
+                    className={cn("h-12 w-12 rounded-xl", room.locked && "bg-slate-800 text-white hover:bg-slate-700 hover:text-white")}
+                    title={room.locked ? 'Unlock room' : 'Lock room'}
+                    data-testid="button-lock-room"
+                  >
+                    {room.locked ? <Lock className="w-5 h-5" /> : <LockOpen className="w-5 h-5" />}
+                  </Button>
+                ) : room.locked && (
+                  <Lock className="w-5 h-5 text-slate-500" data-testid="icon-room-locked" />
+                )}
               </div>
               <p className="text-sm text-slate-500 mt-2">
-                {room.gameMode === '2-player' ? '2-Player Mode' : '4-Player Mode'} • Share this code with your friends!
+                {modeLabel} • {room.locked ? 'Locked, no one else can join' : 'Share this code with your friends!'}
               </p>
+              {(isSpectator || room.spectatorCount > 0) && (
+                <p className="text-sm text-slate-500 mt-1 flex items-center justify-center gap-1" data-testid="text-spectator-count">
+                  <Eye className="w-4 h-4" />
+                  {isSpectator ? 'You are watching' : 'Watching'} • {room.spectatorCount}
+                </p>
+              )}
             </div>
 
             {/* Players */}
@@ -137,17 +328,65 @@ export default function WaitingRoom({ initialRoom, playerId, onGameStart, onLeav
                   data-testid={`player-${index}`}
                 >
                   <div className="flex items-center gap-3">
-                    {index === 0 && <Crown className="w-5 h-5 text-yellow-500" />}
+                    {player.id === room.hostId && <Crown className="w-5 h-5 text-yellow-500" />}
+                    {player.bot && <Bot className="w-5 h-5 text-slate-500" />}
                     <span className="font-display font-bold text-slate-800">{player.name}</span>
+                    {player.id === room.hostId && (
+                      <span className="px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-700 text-xs font-bold uppercase" data-testid={`badge-host-${index}`}>
+                        Host
+                      </span>
+                    )}
+                    {teamOf(player.color) > 0 && (
+                      <span className="px-2 py-0.5 rounded-full bg-slate-200 text-slate-600 text-xs font-bold uppercase" data-testid={`badge-team-${index}`}>
+                        Team {teamOf(player.color)}
+                      </span>
+                    )}
+                    {!player.connected && <WifiOff className="w-4 h-4 text-slate-400" />}
                   </div>
                   <div className="flex items-center gap-2">
-                    {player.color && (
-                      <div 
+                    {player.colors.map(color => (
+                      <div
+                        key={color}
                         className="w-8 h-8 rounded-full border-2 border-white shadow-md"
-                        style={{ backgroundColor: `var(--color-ludo-${player.color})` }}
+                        style={{ backgroundColor: `var(--color-ludo-${color})` }}
                       />
-                    )}
+                    ))}
                     {player.ready && <Check className="w-5 h-5 text-green-500" />}
+                    {isHost && !player.bot && player.id !== playerId && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleTransferHost(player.id)}
+                          className="h-8 w-8"
+                          title="Make host"
+                          data-testid={`button-transfer-host-${index}`}
+                        >
+                          <Crown className="w-4 h-4 text-slate-500" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleKick(player.id)}
+                          className="h-8 w-8"
+                          title="Kick"
+                          data-testid={`button-kick-${index}`}
+                        >
+                          <UserX className="w-4 h-4 text-slate-500" />
+                        </Button>
+                      </>
+                    )}
+                    {isHost && player.bot && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemoveBot(player.id)}
+                        className="h-8 w-8"
+                        data-testid={`button-remove-bot-${index}`}
+                      >
+                        <X className="w-4 h-4 text-slate-500" />
+                      </Button>
+                    )}
                   </div>
                 </motion.div>
               ))}
@@ -158,37 +397,243 @@ export default function WaitingRoom({ initialRoom, playerId, onGameStart, onLeav
               ))}
             </div>
 
-            {/* Color Selection */}
-            {!currentPlayer?.color && (
+            {/* Add Bots (Host Only) */}
+            {isHost && room.players.length < maxPlayers && (
               <div className="mb-6">
                 <label className="block text-sm font-bold text-slate-600 mb-3 uppercase tracking-wide text-center">
-                  Choose Your Color
+                  Add a Computer Player
                 </label>
-                <div className={cn("grid gap-3", room.gameMode === '2-player' ? 'grid-cols-2' : 'grid-cols-4')}>
-                  {availableColors.map(color => {
-                    const taken = room.players.some(p => p.color === color && p.id !== playerId);
-                    return (
-                      <button
-                        key={color}
-                        onClick={() => !taken && handleChooseColor(color)}
-                        disabled={taken}
-                        className={cn(
-                          "aspect-square rounded-2xl border-4 transition-all shadow-md relative",
-                          taken ? "opacity-30 cursor-not-allowed" : "hover:scale-110 cursor-pointer border-white",
-                          currentPlayer?.color === color && "ring-4 ring-slate-800 ring-offset-2"
-                        )}
-                        style={{ backgroundColor: `var(--color-ludo-${color})` }}
-                        data-testid={`button-color-${color}`}
+                <div className="grid grid-cols-3 gap-3">
+                  {BOT_STRATEGIES.map(strategy => (
+                    <Button
+                      key={strategy}
+                      variant="outline"
+                      onClick={() => handleAddBot(strategy)}
+                      className="h-10 rounded-xl font-display"
+                      data-testid={`button-add-bot-${strategy}`}
+                    >
+                      <Bot className="w-4 h-4 mr-1" />
+                      {BOT_STRATEGY_LABELS[strategy]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Color and Team Selection */}
+            {currentPlayer && (!currentPlayer.color || (teams && !currentPlayer.ready)) && (
+              <div className="mb-6">
+                <label className="block text-sm font-bold text-slate-600 mb-3 uppercase tracking-wide text-center">
+                  {controlsTeam ? 'Choose Your Colors' : teams ? 'Choose Your Team' : 'Choose Your Color'}
+                </label>
+                {teams ? (
+                  <div className="grid grid-cols-2 gap-4">
+                    {teams.map((team, i) => (
+                      <div key={i} className="bg-slate-50 rounded-xl p-3" data-testid={`team-${i + 1}`}>
+                        <p className="text-xs font-bold text-slate-500 uppercase tracking-wide text-center mb-2">
+                          {controlsTeam ? 'Pair' : 'Team'} {i + 1}
+                        </p>
+                        <div className="grid grid-cols-2 gap-3">
+                          {team.map(renderColorButton)}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className={cn("grid gap-3", availableColors.length === 2 ? 'grid-cols-2' : 'grid-cols-4')}>
+                    {availableColors.map(renderColorButton)}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Dice Mode */}
+            <div className="mb-6">
+              <label className="block text-sm font-bold text-slate-600 mb-3 uppercase tracking-wide text-center">
+                Dice
+              </label>
+              <div className="grid grid-cols-3 gap-3">
+                {DICE_MODES.map(({ value, label }) => (
+                  <Button
+                    key={value}
+                    variant={room.diceMode === value ? 'default' : 'outline'}
+                    disabled={!isHost}
+                    onClick={() => handleDiceModeChange(value)}
+                    className="h-10 rounded-xl font-display"
+                    data-testid={`button-dice-mode-${value}`}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              {room.diceMode === 'provably-fair' && !isSpectator && (
+                <div className="mt-3 space-y-2">
+                  <p className="text-[10px] font-mono text-slate-500 break-all text-center">
+                    Server seed hash: {room.diceAudit.serverSeedHash}
+                  </p>
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Your client seed"
+                      value={clientSeed}
+                      onChange={(e) => setClientSeed(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleSaveClientSeed()}
+                      maxLength={64}
+                      className="h-10 rounded-xl font-mono"
+                      data-testid="input-client-seed"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={handleSaveClientSeed}
+                      disabled={clientSeed.trim() === room.diceAudit.clientSeeds[playerId]}
+                      className="h-10 rounded-xl"
+                      data-testid="button-save-client-seed"
+                    >
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Variant */}
+            <div className="mb-6">
+              <label className="block text-sm font-bold text-slate-600 mb-3 uppercase tracking-wide text-center">
+                Variant
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                {[false, true].map(quick => (
+                  <Button
+                    key={String(quick)}
+                    variant={room.rules.quick === quick ? 'default' : 'outline'}
+                    disabled={!isHost}
+                    onClick={() => handleRulesChange({ quick })}
+                    className="h-10 rounded-xl font-display"
+                    data-testid={`button-variant-${quick ? 'quick' : 'classic'}`}
+                  >
+                    {quick ? 'Quick' : 'Classic'}
+                  </Button>
+                ))}
+              </div>
+              {room.rules.quick && (
+                <div className="mt-3 space-y-2">
+                  <p className="text-xs text-slate-500 text-center">
+                    Pieces start on the track; highest score wins when a limit is reached
+                  </p>
+                  <div className="grid grid-cols-4 gap-2">
+                    {QUICK_MINUTES.map(quickMinutes => (
+                      <Button
+                        key={quickMinutes}
+                        size="sm"
+                        variant={room.rules.quickMinutes === quickMinutes ? 'default' : 'outline'}
+                        disabled={!isHost}
+                        onClick={() => handleRulesChange({ quickMinutes })}
+                        className="rounded-lg font-display"
+                        data-testid={`button-quick-minutes-${quickMinutes}`}
+                      >
+                        {quickMinutes === 0 ? 'No Clock' : `${quickMinutes} min`}
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-4 gap-2">
+                    {QUICK_TURNS.map(quickTurns => (
+                      <Button
+                        key={quickTurns}
+                        size="sm"
+                        variant={room.rules.quickTurns === quickTurns ? 'default' : 'outline'}
+                        disabled={!isHost}
+                        onClick={() => handleRulesChange({ quickTurns })}
+                        className="rounded-lg font-display"
+                        data-testid={`button-quick-turns-${quickTurns}`}
                       >
-                        {taken && (
-                          <div className="absolute inset-0 flex items-center justify-center">
-                            <div className="w-1 h-full bg-slate-800 rotate-45" />
-                          </div>
-                        )}
-                      </button>
-                    );
-                  })}
+                        {quickTurns === 0 ? 'No Cap' : `${quickTurns} turns`}
+                      </Button>
+                    ))}
+                  </div>
                 </div>
+              )}
+            </div>
+
+            {/* Turn Timer */}
+            {wsClient.hasCapability('turn_timer') && (
+              <div className="mb-6">
+                <label className="block text-sm font-bold text-slate-600 mb-3 uppercase tracking-wide text-center">
+                  Turn Timer
+                </label>
+                <div className="grid grid-cols-4 gap-3">
+                  {TURN_SECONDS.map(seconds => (
+                    <Button
+                      key={seconds}
+                      variant={room.turnTimer.seconds === seconds ? 'default' : 'outline'}
+                      disabled={!isHost}
+                      onClick={() => handleTurnTimerChange({ seconds })}
+                      className="h-10 rounded-xl font-display"
+                      data-testid={`button-turn-seconds-${seconds}`}
+                    >
+                      {seconds === 0 ? 'Off' : `${seconds}s`}
+                    </Button>
+                  ))}
+                </div>
+                {room.turnTimer.seconds > 0 && (
+                  <div className="mt-3 space-y-2">
+                    <p className="text-xs text-slate-500 text-center">Missed turns in a row before action</p>
+                    <div className="grid grid-cols-4 gap-2">
+                      {MAX_TIMEOUTS.map(maxTimeouts => (
+                        <Button
+                          key={maxTimeouts}
+                          size="sm"
+                          variant={room.turnTimer.maxTimeouts === maxTimeouts ? 'default' : 'outline'}
+                          disabled={!isHost}
+                          onClick={() => handleTurnTimerChange({ maxTimeouts })}
+                          className="rounded-lg font-display"
+                          data-testid={`button-max-timeouts-${maxTimeouts}`}
+                        >
+                          {maxTimeouts}
+                        </Button>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      {TIMEOUT_ACTIONS.map(({ value, label }) => (
+                        <Button
+                          key={value}
+                          size="sm"
+                          variant={room.turnTimer.onMaxTimeouts === value ? 'default' : 'outline'}
+                          disabled={!isHost}
+                          onClick={() => handleTurnTimerChange({ onMaxTimeouts: value })}
+                          className="rounded-lg font-display"
+                          data-testid={`button-timeout-action-${value}`}
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* House Rules (editable by host, visible to everyone) */}
+            <div className="mb-6">
+              <button
+                onClick={() => setShowRules(!showRules)}
+                className="w-full flex items-center justify-center gap-1 text-sm font-bold text-slate-600 uppercase tracking-wide mb-3"
+                data-testid="button-toggle-rules"
+              >
+                House Rules
+                {showRules ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              </button>
+              {showRules && (
+                <RulesPanel rules={room.rules} editable={isHost} onChange={handleRulesChange} />
+              )}
+            </div>
+
+            {/* Chat */}
+            {wsClient.hasCapability('chat') && (
+              <div className="mb-6">
+                <ChatPanel
+                  playerId={playerId}
+                  players={room.players}
+                  canEmote={!!currentPlayer?.color && wsClient.hasCapability('emotes')}
+                />
               </div>
             )}
 
@@ -223,7 +668,7 @@ export default function WaitingRoom({ initialRoom, playerId, onGameStart, onLeav
               data-testid="button-leave"
             >
               <LogOut className="w-4 h-4 mr-2" />
-              Leave Room
+              {isSpectator ? 'Stop Watching' : 'Leave Room'}
             </Button>
           </Card>
         </motion.div>
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // WebSocket server to use instead of the host serving the page
+  readonly VITE_WS_URL?: string;
+}
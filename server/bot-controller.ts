@@ -0,0 +1,82 @@
+import { GameRoom, GamePiece } from '@shared/schema';
+import { getTurnPlayer } from '@shared/ludo-engine';
+import { GameManager } from './game-manager';
+import { log } from './index';
+
+// Pause between bot actions so humans can follow the roll and the move
+const BOT_ACTION_DELAY_MS = 900;
+
+type RoomUpdateHandler = (room: GameRoom, captured: GamePiece | null) => void;
+
+// Plays bot turns server-side. Call schedule() after anything that may hand
+// the turn to a bot; each step re-schedules itself until a human is up again.
+export class BotController {
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(
+    private gameManager: GameManager,
+    private onRoomUpdate: RoomUpdateHandler,
+  ) {}
+
+  schedule(room: GameRoom) {
+    if (this.timers.has(room.code)) return;
+    if (!room.gameState.started || room.gameState.winner) return;
+
+    const currentPlayer = getTurnPlayer(room);
+    if (!currentPlayer?.bot) return;
+
+    const timer = setTimeout(() => this.takeStep(room.code), BOT_ACTION_DELAY_MS);
+    this.timers.set(room.code, timer);
+  }
+
+  private takeStep(roomCode: string) {
+    this.timers.delete(roomCode);
+
+    const room = this.gameManager.getRoomByCode(roomCode);
+    if (!room) return;
+
+    const bot = getTurnPlayer(room);
+    if (!bot?.bot) return;
+
+    try {
+      if (room.gameState.waitingForMove) {
+        const pieceId = this.gameManager.getBotMove(room);
+        if (pieceId) {
+          const result = this.gameManager.movePiece(bot.id, pieceId);
+          if (result) this.onRoomUpdate(result.room, result.captured);
+        } else {
+          // The engine only waits when something can move, but never spin on it
+          this.skip(roomCode);
+        }
+      } else {
+        const result = this.gameManager.rollDice(bot.id);
+        if (result) {
+          this.onRoomUpdate(result.room, null);
+        }
+      }
+    } catch (error: any) {
+      log(`Bot step failed in ${roomCode}: ${error.message}`, 'bots');
+      // Give up the bot's turn so the game moves on instead of stalling
+      if (!this.skip(roomCode)) return;
+    }
+
+    const updated = this.gameManager.getRoomByCode(roomCode);
+    if (updated) {
+      this.schedule(updated);
+    }
+  }
+
+  // Returns false if even passing the turn failed; the room is left as it is
+  private skip(roomCode: string): boolean {
+    try {
+      const room = this.gameManager.skipTurn(roomCode);
+      if (room) {
+        this.onRoomUpdate(room, null);
+      }
+      return true;
+    } catch (error: any) {
+      log(`Passing the bot's turn failed in ${roomCode}: ${error.message}`, 'bots');
+      return false;
+    }
+  }
+}
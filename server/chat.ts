@@ -0,0 +1,84 @@
+import { ChatMessage, Emote, PlayerColor } from '@shared/schema';
+import { GameError } from '@shared/errors';
+import { randomUUID } from 'crypto';
+
+const CHAT_MAX_LENGTH = 200;
+// Each sender gets this many chat messages or emotes per window
+const CHAT_RATE_LIMIT = 5;
+const CHAT_RATE_WINDOW_MS = 10000;
+
+const EMOTES: Emote[] = ['thumbs-up', 'laugh', 'wow', 'angry', 'cry', 'gg'];
+
+// Rewrites a chat message before it is sent on; swap it out with setFilter()
+export type ChatFilter = (text: string) => string;
+
+// Words to mask, from CHAT_BLOCKED_WORDS (comma separated)
+const BLOCKED_WORDS = (process.env.CHAT_BLOCKED_WORDS || '')
+  .split(',')
+  .map(word => word.trim().toLowerCase())
+  .filter(word => word.length > 0);
+
+export function maskBlockedWords(text: string): string {
+  return text.replace(/[^\s.,!?;:"()]+/g, word =>
+    BLOCKED_WORDS.includes(word.toLowerCase()) ? '*'.repeat(word.length) : word
+  );
+}
+
+interface ChatSender {
+  id: string;
+  name: string;
+  color: PlayerColor | null;
+}
+
+export class ChatManager {
+  private recentMessages: Map<string, number[]> = new Map();
+
+  constructor(private filter: ChatFilter = maskBlockedWords) {}
+
+  setFilter(filter: ChatFilter) {
+    this.filter = filter;
+  }
+
+  createMessage(sender: ChatSender, text: string): ChatMessage {
+    const trimmed = text.trim();
+    if (trimmed.length === 0) {
+      throw new GameError('INVALID_MESSAGE', 'Message is empty');
+    }
+    if (trimmed.length > CHAT_MAX_LENGTH) {
+      throw new GameError('INVALID_MESSAGE', `Messages are limited to ${CHAT_MAX_LENGTH} characters`);
+    }
+    this.checkRate(sender.id);
+
+    return {
+      id: randomUUID(),
+      senderId: sender.id,
+      name: sender.name,
+      color: sender.color,
+      text: this.filter(trimmed),
+      createdAt: Date.now(),
+    };
+  }
+
+  checkEmote(senderId: string, emote: Emote) {
+    if (!EMOTES.includes(emote)) {
+      throw new GameError('INVALID_MESSAGE', 'Unknown emote');
+    }
+    this.checkRate(senderId);
+  }
+
+  forget(senderId: string) {
+    this.recentMessages.delete(senderId);
+  }
+
+  private checkRate(senderId: string) {
+    const now = Date.now();
+    const recent = (this.recentMessages.get(senderId) || []).filter(t => now - t < CHAT_RATE_WINDOW_MS);
+    if (recent.length >= CHAT_RATE_LIMIT) {
+      throw new GameError('RATE_LIMITED', 'You are sending messages too quickly');
+    }
+    recent.push(now);
+    this.recentMessages.set(senderId, recent);
+  }
+}
+
+export const chatManager = new ChatManager();
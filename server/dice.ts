@@ -0,0 +1,23 @@
+import { createHash, createHmac, randomBytes, randomInt } from 'crypto';
+import { getRollMessage, rollFromDigest } from '@shared/provably-fair';
+
+export function createServerSeed(): string {
+  return randomBytes(32).toString('hex');
+}
+
+export function createClientSeed(): string {
+  return randomBytes(8).toString('hex');
+}
+
+export function hashServerSeed(serverSeed: string): string {
+  return createHash('sha256').update(serverSeed).digest('hex');
+}
+
+export function rollFairDice(): number {
+  return randomInt(1, 7);
+}
+
+export function rollProvablyFairDice(serverSeed: string, clientSeed: string, nonce: number): number {
+  const digest = createHmac('sha256', serverSeed).update(getRollMessage(clientSeed, nonce)).digest('hex');
+  return rollFromDigest(digest);
+}
@@ -0,0 +1,59 @@
+import { GameRoom } from '@shared/schema';
+import { GameManager } from './game-manager';
+import { log } from './index';
+
+type TimeUpHandler = (room: GameRoom) => void;
+
+// Wait before trying again when ending a game on time fails
+const RETRY_DELAY_MS = 5000;
+
+// Enforces gameState.endsAt, the time limit of a quick game. Call schedule()
+// once the game starts or is restored; the old timer for the room is replaced.
+export class GameClock {
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(
+    private gameManager: GameManager,
+    private onTimeUp: TimeUpHandler,
+  ) {}
+
+  schedule(room: GameRoom) {
+    this.cancel(room.code);
+
+    const { endsAt, winner } = room.gameState;
+    if (!endsAt || winner) return;
+
+    const timer = setTimeout(() => this.expire(room.code), Math.max(endsAt - Date.now(), 0));
+    this.timers.set(room.code, timer);
+  }
+
+  cancel(roomCode: string) {
+    const timer = this.timers.get(roomCode);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(roomCode);
+    }
+  }
+
+  private expire(roomCode: string) {
+    this.timers.delete(roomCode);
+
+    let room: GameRoom | null;
+    try {
+      room = this.gameManager.endOnTime(roomCode);
+    } catch (error: any) {
+      // Keep trying: the game must not run on past its limit
+      log(`Ending ${roomCode} on time failed: ${error.message}`, 'websocket');
+      this.timers.set(roomCode, setTimeout(() => this.expire(roomCode), RETRY_DELAY_MS));
+      return;
+    }
+
+    if (room) {
+      try {
+        this.onTimeUp(room);
+      } catch (error: any) {
+        log(`Handling the end of ${roomCode} on time failed: ${error.message}`, 'websocket');
+      }
+    }
+  }
+}
@@ -1,12 +1,103 @@
-import { GameRoom, Player, GamePiece, PlayerColor, GameMode } from '@shared/schema';
-import { randomBytes } from 'crypto';
+import { GameRoom, Player, GamePiece, PlayerColor, GameMode, BotStrategy, RoomRules, DiceMode, GameEvent, GameEventData, GameReplay, TimeoutAction, TurnTimerSettings, RoomClosedReason, DiceRollRecord } from '@shared/schema';
+import { applyAction, createEngineContext, createInitialState, getCurrentColor, getTurnPlayer, nextActiveSeat, DEFAULT_ROOM_RULES, EngineAction, EngineEvent } from '@shared/ludo-engine';
+import { BOT_STRATEGY_LABELS, chooseBotMove } from '@shared/ludo-bots';
+import { rollWeightedDice } from '@shared/dice';
+import { BOARD_ORDER, GAME_MODES, colorsForSeat } from '@shared/game-modes';
+import { GameError } from '@shared/errors';
+import { IStorage, storage } from './storage';
+import { log } from './index';
+import { createClientSeed, createServerSeed, hashServerSeed, rollFairDice, rollProvablyFairDice } from './dice';
+import { randomBytes, randomUUID } from 'crypto';
+
+const DEFAULT_TURN_TIMER: TurnTimerSettings = {
+  seconds: 30,
+  maxTimeouts: 3,
+  onMaxTimeouts: 'bot',
+};
+
+// How long a room may go without anyone in it doing something, and how long a
+// finished game stays open for its players to look at the result
+const LOBBY_IDLE_MS = Number(process.env.ROOM_LOBBY_IDLE_MS) || 30 * 60 * 1000;
+const GAME_IDLE_MS = Number(process.env.ROOM_GAME_IDLE_MS) || 60 * 60 * 1000;
+const FINISHED_ROOM_TTL_MS = Number(process.env.ROOM_FINISHED_TTL_MS) || 10 * 60 * 1000;
+const SWEEP_INTERVAL_MS = Number(process.env.ROOM_SWEEP_INTERVAL_MS) || 60 * 1000;
+
+export interface ClosedRoom {
+  room: GameRoom; // As it was when closed
+  spectators: string[];
+  reason: RoomClosedReason;
+}
 
-const PLAYER_COLORS_4P: PlayerColor[] = ['red', 'green', 'yellow', 'blue'];
-const PLAYER_COLORS_2P: PlayerColor[] = ['red', 'yellow']; // Opposite colors for 2-player
+export interface TimeoutResult {
+  room: GameRoom;
+  captured: GamePiece | null;
+  playerId: string; // Player whose turn was auto-played
+  penalty: TimeoutAction | null; // Applied when they hit the timeout limit
+  previousHostId: string | null; // A bot taking over the host's seat moves the host on
+}
 
 export class GameManager {
   private rooms: Map<string, GameRoom> = new Map();
   private playerToRoom: Map<string, string> = new Map();
+  private spectatorToRoom: Map<string, string> = new Map();
+  // Secret half of each room's provably fair commitment; never sent to clients before the game ends
+  private serverSeeds: Map<string, string> = new Map();
+  // Ordered log of everything that happened in each room's game
+  private eventLogs: Map<string, GameEvent[]> = new Map();
+  // Per-room chain of pending storage writes so they land in order
+  private writeQueues: Map<string, Promise<void>> = new Map();
+  // When a human last acted in each room, and when each finished game ended
+  private lastActivity: Map<string, number> = new Map();
+  private finishedAt: Map<string, number> = new Map();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(private storage: IStorage) {}
+
+  // Load every stored room back into memory after a restart
+  async restoreRooms(): Promise<GameRoom[]> {
+    const stored = await this.storage.getRooms();
+    for (const { room, serverSeed } of stored) {
+      this.rooms.set(room.code, room);
+      this.serverSeeds.set(room.code, serverSeed);
+      this.eventLogs.set(room.code, await this.storage.getEvents(room.code));
+      room.players.forEach(p => this.playerToRoom.set(p.id, room.code));
+      // Idle and finished clocks restart, since the downtime wasn't anyone's fault
+      this.lastActivity.set(room.code, Date.now());
+      if (room.gameState.winner) this.finishedAt.set(room.code, Date.now());
+    }
+    return stored.map(({ room }) => room);
+  }
+
+  private enqueueWrite(roomCode: string, write: () => Promise<void>) {
+    const previous = this.writeQueues.get(roomCode) || Promise.resolve();
+    const next = previous
+      .then(write)
+      .catch(error => log(`Storage write failed for ${roomCode}: ${error}`, 'storage'));
+    this.writeQueues.set(roomCode, next);
+    next.then(() => {
+      if (this.writeQueues.get(roomCode) === next) this.writeQueues.delete(roomCode);
+    });
+  }
+
+  // Snapshot the room now; the write itself happens asynchronously. Every
+  // persisted change is also a new version for clients.
+  private persist(room: GameRoom) {
+    room.version++;
+    const snapshot = structuredClone(room);
+    const serverSeed = this.serverSeeds.get(room.code)!;
+    this.enqueueWrite(room.code, () => this.storage.saveRoom(snapshot, serverSeed));
+  }
+
+  private recordEvents(room: GameRoom, playerId: string | null, events: GameEventData[]) {
+    const eventLog = this.eventLogs.get(room.code) || [];
+    this.eventLogs.set(room.code, eventLog);
+
+    events.forEach(data => {
+      const event: GameEvent = { ...data, seq: eventLog.length, playerId, createdAt: Date.now() };
+      eventLog.push(event);
+      this.enqueueWrite(room.code, () => this.storage.recordEvent(room.code, event));
+    });
+  }
 
   generateRoomCode(): string {
     let code: string;
@@ -17,16 +108,32 @@ export class GameManager {
   }
 
   createRoom(playerId: string, playerName: string, gameMode: GameMode = '4-player'): GameRoom {
+    this.assertNotSpectating(playerId);
     const code = this.generateRoomCode();
+    const serverSeed = createServerSeed();
     const room: GameRoom = {
       code,
       players: [{
         id: playerId,
         name: playerName,
         color: null,
+        colors: [],
         ready: false,
+        connected: true,
+        bot: null,
       }],
+      hostId: playerId,
+      locked: false,
       gameMode,
+      rules: { ...DEFAULT_ROOM_RULES },
+      diceMode: 'weighted',
+      turnTimer: { ...DEFAULT_TURN_TIMER },
+      diceAudit: {
+        serverSeedHash: hashServerSeed(serverSeed),
+        serverSeed: null,
+        clientSeeds: { [playerId]: createClientSeed() },
+        rolls: [],
+      },
       gameState: {
         pieces: [],
         currentTurnIndex: 0,
@@ -34,14 +141,27 @@ export class GameManager {
         lastDiceValue: null,
         isFirstRollOfTurn: true,
         waitingForMove: false,
+        consecutiveSixes: 0,
+        captureCounts: {},
+        capturesSuffered: {},
+        turnsPlayed: 0,
+        endsAt: null,
+        turnDeadline: null,
+        consecutiveTimeouts: {},
+        finishingOrder: [],
         winner: null,
         started: false,
       },
+      spectatorCount: 0,
+      version: 0,
       createdAt: Date.now(),
     };
 
     this.rooms.set(code, room);
+    this.serverSeeds.set(code, serverSeed);
     this.playerToRoom.set(playerId, code);
+    this.lastActivity.set(code, Date.now());
+    this.persist(room);
     return room;
   }
 
@@ -49,27 +169,90 @@ export class GameManager {
     const room = this.rooms.get(roomCode);
     if (!room) return null;
 
-    const maxPlayers = room.gameMode === '2-player' ? 2 : 4;
-    if (room.players.length >= maxPlayers) {
-      throw new Error('Room is full');
+    this.assertNotSpectating(playerId);
+
+    if (room.players.length >= GAME_MODES[room.gameMode].maxPlayers) {
+      throw new GameError('ROOM_FULL', 'Room is full');
     }
 
     if (room.gameState.started) {
-      throw new Error('Game already started');
+      throw new GameError('GAME_ALREADY_STARTED', 'Game already started');
+    }
+
+    if (room.locked) {
+      throw new GameError('ROOM_LOCKED', 'The host has locked this room');
     }
 
     const player: Player = {
       id: playerId,
       name: playerName,
       color: null,
+      colors: [],
       ready: false,
+      connected: true,
+      bot: null,
     };
 
     room.players.push(player);
+    room.diceAudit.clientSeeds[playerId] = createClientSeed();
     this.playerToRoom.set(playerId, roomCode);
+    this.persist(room);
+    return room;
+  }
+
+  // Watch a room without taking a seat; works whether or not the room is full or started
+  spectate(roomCode: string, spectatorId: string): GameRoom | null {
+    const room = this.rooms.get(roomCode);
+    if (!room) return null;
+
+    if (this.playerToRoom.has(spectatorId)) {
+      throw new GameError('ALREADY_IN_ROOM', 'Leave your room before spectating');
+    }
+
+    this.stopSpectating(spectatorId);
+    this.spectatorToRoom.set(spectatorId, roomCode);
+    room.spectatorCount++;
+    room.version++;
     return room;
   }
 
+  // A seat and a place watching would get every update twice and leave the
+  // seat behind when the connection drops
+  private assertNotSpectating(playerId: string) {
+    if (this.spectatorToRoom.has(playerId)) {
+      throw new GameError('ALREADY_IN_ROOM', 'Stop watching before taking a seat');
+    }
+  }
+
+  stopSpectating(spectatorId: string): GameRoom | null {
+    const roomCode = this.spectatorToRoom.get(spectatorId);
+    if (!roomCode) return null;
+    this.spectatorToRoom.delete(spectatorId);
+
+    const room = this.rooms.get(roomCode);
+    if (!room) return null;
+
+    room.spectatorCount--;
+    room.version++;
+    return room;
+  }
+
+  isSpectator(id: string): boolean {
+    return this.spectatorToRoom.has(id);
+  }
+
+  getSpectatedRoom(spectatorId: string): GameRoom | null {
+    const roomCode = this.spectatorToRoom.get(spectatorId);
+    if (!roomCode) return null;
+    return this.rooms.get(roomCode) || null;
+  }
+
+  getSpectators(roomCode: string): string[] {
+    return Array.from(this.spectatorToRoom.entries())
+      .filter(([, code]) => code === roomCode)
+      .map(([id]) => id);
+  }
+
   chooseColor(playerId: string, color: PlayerColor): GameRoom | null {
     const roomCode = this.playerToRoom.get(playerId);
     if (!roomCode) return null;
@@ -77,25 +260,284 @@ export class GameManager {
     const room = this.rooms.get(roomCode);
     if (!room) return null;
 
+    // Colours decide turn order and who moves what once the game is running
+    if (room.gameState.started) {
+      throw new GameError('GAME_ALREADY_STARTED', 'Game already started');
+    }
+
     // Check if color is available for this game mode
-    const availableColors = room.gameMode === '2-player' ? PLAYER_COLORS_2P : PLAYER_COLORS_4P;
-    if (!availableColors.includes(color)) {
-      throw new Error('Color not available for this game mode');
+    if (!this.getAvailableColors(room).includes(color)) {
+      throw new GameError('COLOR_UNAVAILABLE', 'Color not available for this game mode');
     }
 
-    // Check if color is already taken
-    if (room.players.some(p => p.color === color && p.id !== playerId)) {
-      throw new Error('Color already taken');
+    // Check if color is already taken, along with any it comes paired with
+    const colors = colorsForSeat(room.gameMode, color);
+    if (room.players.some(p => p.id !== playerId && p.colors.some(c => colors.includes(c)))) {
+      throw new GameError('COLOR_TAKEN', 'Color already taken');
     }
 
     const player = room.players.find(p => p.id === playerId);
     if (player) {
       player.color = color;
+      player.colors = colors;
+    }
+
+    this.persist(room);
+    return room;
+  }
+
+  private isHost(room: GameRoom, playerId: string): boolean {
+    return room.hostId === playerId;
+  }
+
+  // Hand the host role on when the host is gone or offline, preferring
+  // humans who are connected. Bots never host.
+  private migrateHost(room: GameRoom) {
+    const host = room.players.find(p => p.id === room.hostId && !p.bot);
+    if (host?.connected) return;
+
+    const humans = room.players.filter(p => !p.bot);
+    const next = humans.find(p => p.connected) || host || humans[0];
+    room.hostId = next?.id ?? null;
+  }
+
+  // Remove another player from the lobby. The caller tells them and ends
+  // their session.
+  kickPlayer(playerId: string, targetId: string): GameRoom | null {
+    const roomCode = this.playerToRoom.get(playerId);
+    if (!roomCode) return null;
+
+    const room = this.rooms.get(roomCode);
+    if (!room) return null;
+
+    if (!this.isHost(room, playerId)) {
+      throw new GameError('NOT_HOST', 'Only the host can kick players');
+    }
+
+    if (room.gameState.started) {
+      throw new GameError('GAME_ALREADY_STARTED', 'Game already started');
+    }
+
+    if (targetId === playerId || !room.players.some(p => p.id === targetId)) {
+      throw new GameError('INVALID_TARGET', 'That player can\'t be kicked');
+    }
+
+    this.leaveRoom(targetId);
+    return room;
+  }
+
+  transferHost(playerId: string, targetId: string): GameRoom | null {
+    const roomCode = this.playerToRoom.get(playerId);
+    if (!roomCode) return null;
+
+    const room = this.rooms.get(roomCode);
+    if (!room) return null;
+
+    if (!this.isHost(room, playerId)) {
+      throw new GameError('NOT_HOST', 'Only the host can hand over the room');
+    }
+
+    const target = room.players.find(p => p.id === targetId);
+    if (!target || target.bot || targetId === playerId) {
+      throw new GameError('INVALID_TARGET', 'That player can\'t become host');
+    }
+
+    room.hostId = targetId;
+    this.persist(room);
+    return room;
+  }
+
+  lockRoom(playerId: string, locked: boolean): GameRoom | null {
+    const roomCode = this.playerToRoom.get(playerId);
+    if (!roomCode) return null;
+
+    const room = this.rooms.get(roomCode);
+    if (!room) return null;
+
+    if (!this.isHost(room, playerId)) {
+      throw new GameError('NOT_HOST', 'Only the host can lock the room');
+    }
+
+    room.locked = locked;
+    this.persist(room);
+    return room;
+  }
+
+  setRules(playerId: string, rules: Partial<RoomRules>): GameRoom | null {
+    const roomCode = this.playerToRoom.get(playerId);
+    if (!roomCode) return null;
+
+    const room = this.rooms.get(roomCode);
+    if (!room) return null;
+
+    if (!this.isHost(room, playerId)) {
+      throw new GameError('NOT_HOST', 'Only the host can change the rules');
+    }
+
+    if (room.gameState.started) {
+      throw new GameError('GAME_ALREADY_STARTED', 'Game already started');
+    }
+
+    const next: RoomRules = { ...room.rules, ...rules };
+    if (next.leaveBaseRolls.length === 0 || next.leaveBaseRolls.some(r => !Number.isInteger(r) || r < 1 || r > 6)) {
+      throw new GameError('INVALID_SETTINGS', 'Invalid rolls for leaving base');
+    }
+    if (!['standard', 'starts-only', 'none'].includes(next.safeSpots)) {
+      throw new GameError('INVALID_SETTINGS', 'Invalid safe spot rule');
+    }
+    if (next.quick && next.quickMinutes <= 0 && next.quickTurns <= 0) {
+      throw new GameError('INVALID_SETTINGS', 'A quick game needs a time or turn limit');
+    }
+
+    room.rules = next;
+    this.persist(room);
+    return room;
+  }
+
+  setDiceMode(playerId: string, diceMode: DiceMode): GameRoom | null {
+    const roomCode = this.playerToRoom.get(playerId);
+    if (!roomCode) return null;
+
+    const room = this.rooms.get(roomCode);
+    if (!room) return null;
+
+    if (!this.isHost(room, playerId)) {
+      throw new GameError('NOT_HOST', 'Only the host can change the dice');
+    }
+
+    if (room.gameState.started) {
+      throw new GameError('GAME_ALREADY_STARTED', 'Game already started');
+    }
+
+    room.diceMode = diceMode;
+    this.persist(room);
+    return room;
+  }
+
+  setTurnTimer(playerId: string, turnTimer: Partial<TurnTimerSettings>): GameRoom | null {
+    const roomCode = this.playerToRoom.get(playerId);
+    if (!roomCode) return null;
+
+    const room = this.rooms.get(roomCode);
+    if (!room) return null;
+
+    if (!this.isHost(room, playerId)) {
+      throw new GameError('NOT_HOST', 'Only the host can change the turn timer');
+    }
+
+    if (room.gameState.started) {
+      throw new GameError('GAME_ALREADY_STARTED', 'Game already started');
+    }
+
+    const next: TurnTimerSettings = { ...room.turnTimer, ...turnTimer };
+    if (!Number.isInteger(next.seconds) || (next.seconds !== 0 && (next.seconds < 5 || next.seconds > 300))) {
+      throw new GameError('INVALID_SETTINGS', 'Turn time must be off or 5-300 seconds');
+    }
+    if (!Number.isInteger(next.maxTimeouts) || next.maxTimeouts < 1 || next.maxTimeouts > 10) {
+      throw new GameError('INVALID_SETTINGS', 'Timeout limit must be 1-10');
+    }
+    if (!['bot', 'remove'].includes(next.onMaxTimeouts)) {
+      throw new GameError('INVALID_SETTINGS', 'Invalid timeout action');
+    }
+
+    room.turnTimer = next;
+    this.persist(room);
+    return room;
+  }
+
+  // Client seeds are locked in once the game starts
+  setClientSeed(playerId: string, clientSeed: string): GameRoom | null {
+    const roomCode = this.playerToRoom.get(playerId);
+    if (!roomCode) return null;
+
+    const room = this.rooms.get(roomCode);
+    if (!room) return null;
+
+    if (room.gameState.started) {
+      throw new GameError('GAME_ALREADY_STARTED', 'Game already started');
+    }
+
+    if (clientSeed.length === 0 || clientSeed.length > 64) {
+      throw new GameError('INVALID_SETTINGS', 'Client seed must be 1-64 characters');
+    }
+
+    room.diceAudit.clientSeeds[playerId] = clientSeed;
+    this.persist(room);
+    return room;
+  }
+
+  addBot(playerId: string, strategy: BotStrategy): GameRoom | null {
+    const roomCode = this.playerToRoom.get(playerId);
+    if (!roomCode) return null;
+
+    const room = this.rooms.get(roomCode);
+    if (!room) return null;
+
+    if (!this.isHost(room, playerId)) {
+      throw new GameError('NOT_HOST', 'Only the host can add bots');
+    }
+
+    if (room.gameState.started) {
+      throw new GameError('GAME_ALREADY_STARTED', 'Game already started');
+    }
+
+    if (room.players.length >= GAME_MODES[room.gameMode].maxPlayers) {
+      throw new GameError('ROOM_FULL', 'Room is full');
+    }
+
+    const color = this.getAvailableColors(room).find(c => !room.players.some(p => p.colors.includes(c)));
+    if (!color) {
+      throw new GameError('ROOM_FULL', 'No colors left for a bot');
+    }
+
+    const botId = `bot-${randomUUID()}`;
+    room.players.push({
+      id: botId,
+      name: `${BOT_STRATEGY_LABELS[strategy]} Bot`,
+      color,
+      colors: colorsForSeat(room.gameMode, color),
+      ready: true,
+      connected: true,
+      bot: strategy,
+    });
+    room.diceAudit.clientSeeds[botId] = createClientSeed();
+    // Bots act through the same rollDice/movePiece paths as humans
+    this.playerToRoom.set(botId, roomCode);
+
+    this.persist(room);
+    return room;
+  }
+
+  removeBot(playerId: string, botId: string): GameRoom | null {
+    const roomCode = this.playerToRoom.get(playerId);
+    if (!roomCode) return null;
+
+    const room = this.rooms.get(roomCode);
+    if (!room) return null;
+
+    if (!this.isHost(room, playerId)) {
+      throw new GameError('NOT_HOST', 'Only the host can remove bots');
+    }
+
+    if (room.gameState.started) {
+      throw new GameError('GAME_ALREADY_STARTED', 'Game already started');
     }
 
+    if (room.players.some(p => p.id === botId && p.bot)) {
+      room.players = room.players.filter(p => p.id !== botId);
+      this.playerToRoom.delete(botId);
+    }
+    this.persist(room);
     return room;
   }
 
+  // Piece the current bot wants to move with the rolled dice
+  getBotMove(room: GameRoom): string | null {
+    const bot = getTurnPlayer(room);
+    if (!bot?.bot) return null;
+    return chooseBotMove(room.gameState, createEngineContext(room), bot.bot);
+  }
+
   setReady(playerId: string): GameRoom | null {
     const roomCode = this.playerToRoom.get(playerId);
     if (!roomCode) return null;
@@ -108,20 +550,19 @@ export class GameManager {
       player.ready = true;
     }
 
+    this.persist(room);
     return room;
   }
 
   canStartGame(room: GameRoom): boolean {
-    const requiredPlayers = room.gameMode === '2-player' ? 2 : 2; // Allow 2-4 players for 4-player mode
-    const maxPlayers = room.gameMode === '2-player' ? 2 : 4;
-    
-    return room.players.length >= requiredPlayers &&
+    const { minPlayers, maxPlayers } = GAME_MODES[room.gameMode];
+    return room.players.length >= minPlayers &&
            room.players.length <= maxPlayers &&
            room.players.every(p => p.color !== null && p.ready);
   }
 
   getAvailableColors(room: GameRoom): PlayerColor[] {
-    return room.gameMode === '2-player' ? PLAYER_COLORS_2P : PLAYER_COLORS_4P;
+    return GAME_MODES[room.gameMode].colors;
   }
 
   startGame(playerId: string): GameRoom | null {
@@ -131,319 +572,355 @@ export class GameManager {
     const room = this.rooms.get(roomCode);
     if (!room) return null;
 
+    if (!this.isHost(room, playerId)) {
+      throw new GameError('NOT_HOST', 'Only the host can start the game');
+    }
+
+    if (room.gameState.started) {
+      throw new GameError('GAME_ALREADY_STARTED', 'Game already started');
+    }
+
     if (!this.canStartGame(room)) {
-      throw new Error('Not all players are ready');
-    }
-
-    // Initialize game pieces
-    const pieces: GamePiece[] = [];
-    room.players.forEach(player => {
-      if (player.color) {
-        for (let i = 0; i < 4; i++) {
-          pieces.push({
-            id: `${player.color}-${i}`,
-            color: player.color,
-            position: -1,
-            isSafe: true,
-          });
-        }
-      }
-    });
+      throw new GameError('PLAYERS_NOT_READY', 'Not all players are ready');
+    }
 
-    room.gameState = {
-      pieces,
-      currentTurnIndex: 0,
-      diceValue: null,
-      lastDiceValue: null,
-      isFirstRollOfTurn: true,
-      waitingForMove: false,
-      winner: null,
-      started: true,
-    };
+    // Turns go clockwise round the board, which also alternates teams
+    room.players.sort((a, b) => BOARD_ORDER.indexOf(a.color!) - BOARD_ORDER.indexOf(b.color!));
+
+    const { turnOrder } = createEngineContext(room);
+    room.gameState = createInitialState(turnOrder, room.rules);
+    if (room.rules.quick && room.rules.quickMinutes > 0) {
+      room.gameState.endsAt = Date.now() + room.rules.quickMinutes * 60 * 1000;
+    }
+    this.startTurnClock(room);
 
+    this.recordEvents(room, playerId, [{ type: 'started', turnOrder }]);
+    this.persist(room);
     return room;
   }
 
-  // Enhanced weighted dice roll with increased 6 probability and better previous number avoidance
-  private rollWeightedDice(room: GameRoom): number {
-    const currentPlayer = room.players[room.gameState.currentTurnIndex];
-    const playerColor = currentPlayer.color!;
-    const playerPieces = room.gameState.pieces.filter(p => p.color === playerColor);
-    const allPiecesInBase = playerPieces.every(p => p.position === -1);
-    
-    const lastRoll = room.gameState.lastDiceValue;
-    const isFirstRoll = room.gameState.isFirstRollOfTurn;
-    
-    // Base probabilities - boost 6 to 25% (was 16.67%)
-    const weights = [15, 15, 15, 15, 15, 25]; // 6 gets 25% chance
-    
-    // If all pieces in base, prioritize getting 6 over avoiding previous number
-    if (allPiecesInBase) {
-      weights[0] = 10; weights[1] = 10; weights[2] = 10; 
-      weights[3] = 10; weights[4] = 10; weights[5] = 50; // 50% chance for 6!
-    } else {
-      // Only apply previous number reduction if NOT all pieces in base
-      // Only reduce probability on the FIRST roll of current player's turn
-      if (lastRoll !== null && isFirstRoll) {
-        const lastRollIndex = lastRoll - 1;
-        const originalWeight = weights[lastRollIndex];
-        const reducedWeight = 2; // Even lower chance (2%)
-        const weightToRedistribute = originalWeight - reducedWeight;
-        
-        if (weightToRedistribute > 0) {
-          weights[lastRollIndex] = reducedWeight;
-          // Distribute the removed weight among other numbers, but give extra to 6
-          const otherIndices = [0, 1, 2, 3, 4, 5].filter(i => i !== lastRollIndex);
-          const baseExtraPerNumber = weightToRedistribute / otherIndices.length;
-          
-          otherIndices.forEach((i) => {
-            if (i === 5) { // Give extra boost to 6
-              weights[i] += baseExtraPerNumber * 1.5;
-            } else {
-              weights[i] += baseExtraPerNumber * 0.875; // Slightly less for others
-            }
-          });
-          
-        }
+  // Provably fair rolls come with the record to publish in the audit, which
+  // the caller adds only once the engine has accepted the roll
+  private rollForDiceMode(room: GameRoom): { value: number; record: DiceRollRecord | null } {
+    switch (room.diceMode) {
+      case 'weighted':
+        return {
+          value: rollWeightedDice(room.gameState, getCurrentColor(room.gameState, createEngineContext(room))),
+          record: null,
+        };
+      case 'fair':
+        return { value: rollFairDice(), record: null };
+      case 'provably-fair': {
+        const player = getTurnPlayer(room)!;
+        const color = getCurrentColor(room.gameState, createEngineContext(room));
+        const clientSeed = room.diceAudit.clientSeeds[player.id];
+        const nonce = room.diceAudit.rolls.length;
+        const value = rollProvablyFairDice(this.serverSeeds.get(room.code)!, clientSeed, nonce);
+        return { value, record: { nonce, playerId: player.id, color, clientSeed, value } };
       }
     }
-    
-    // Normalize weights to ensure they sum to 100
-    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
-    const normalizedWeights = weights.map(w => (w / totalWeight) * 100);
-    
-    
-    // Generate random number based on weights
-    let random = Math.random() * 100;
-    let roll = 1;
-    
-    for (let i = 0; i < normalizedWeights.length; i++) {
-      random -= normalizedWeights[i];
-      if (random <= 0) {
-        roll = i + 1;
-        break;
-      }
-    }
-    
-    return roll;
   }
 
   rollDice(playerId: string): { room: GameRoom; roll: number } | null {
-    const roomCode = this.playerToRoom.get(playerId);
-    if (!roomCode) return null;
+    const room = this.getTurnRoom(playerId);
+    if (!room) return null;
+
+    const roll = this.roll(room, playerId);
+    this.clearTimeouts(room, playerId);
+    this.startTurnClock(room);
+    this.persist(room);
+    return { room, roll };
+  }
+
+  movePiece(playerId: string, pieceId: string): { room: GameRoom; captured: GamePiece | null } | null {
+    const room = this.getTurnRoom(playerId);
+    if (!room) return null;
 
+    const captured = this.move(room, playerId, pieceId);
+    this.clearTimeouts(room, playerId);
+    this.startTurnClock(room);
+    this.persist(room);
+    return { room, captured };
+  }
+
+  // Play the current player's turn for them once their deadline has passed.
+  // Too many timeouts in a row hands the seat to a bot or removes the player.
+  playTimeout(roomCode: string): TimeoutResult | null {
     const room = this.rooms.get(roomCode);
-    if (!room || !room.gameState.started) return null;
+    if (!room) return null;
 
-    const currentPlayer = room.players[room.gameState.currentTurnIndex];
-    if (currentPlayer.id !== playerId) {
-      throw new Error('Not your turn');
-    }
+    const deadline = room.gameState.turnDeadline;
+    if (!deadline || Date.now() < deadline) return null;
+
+    const player = getTurnPlayer(room)!;
+    const playerId = player.id;
+    const color = player.color!; // Timeouts are counted per player, not per colour
+    const previousHostId = room.hostId;
 
+    if (!room.gameState.waitingForMove) {
+      this.roll(room, playerId);
+    }
+    let captured: GamePiece | null = null;
     if (room.gameState.waitingForMove) {
-      throw new Error('Already rolled, make your move');
-    }
-
-    // Use weighted dice roll
-    const roll = this.rollWeightedDice(room);
-    room.gameState.diceValue = roll;
-    room.gameState.isFirstRollOfTurn = false; // No longer first roll of this turn
-
-    // Check if player has valid moves
-    const playerColor = currentPlayer.color!;
-    const playerPieces = room.gameState.pieces.filter(p => p.color === playerColor);
-    const hasValidMoves = playerPieces.some(p => this.canMovePiece(p, roll, room));
-
-    if (hasValidMoves) {
-      room.gameState.waitingForMove = true;
-    } else {
-      // No valid moves, next turn (unless rolled a 6)
-      if (roll !== 6) {
-        room.gameState.lastDiceValue = roll; // Save for next player
-        room.gameState.isFirstRollOfTurn = true; // Reset for next player
-        room.gameState.currentTurnIndex = (room.gameState.currentTurnIndex + 1) % room.players.length;
-      }
-      room.gameState.diceValue = null;
+      const pieceId = chooseBotMove(room.gameState, createEngineContext(room), 'greedy');
+      if (pieceId) captured = this.move(room, playerId, pieceId);
     }
 
-    return { room, roll };
+    const timeouts = (room.gameState.consecutiveTimeouts[color] || 0) + 1;
+    room.gameState.consecutiveTimeouts = { ...room.gameState.consecutiveTimeouts, [color]: timeouts };
+
+    let penalty: TimeoutAction | null = null;
+    if (timeouts >= room.turnTimer.maxTimeouts && !room.gameState.winner) {
+      penalty = room.turnTimer.onMaxTimeouts;
+      if (penalty === 'bot') this.replaceWithBot(room, playerId);
+    }
+
+    this.startTurnClock(room);
+    this.persist(room);
+    return { room, captured, playerId, penalty, previousHostId };
   }
 
-  // Safe spots on the main track (ABSOLUTE positions where pieces cannot be captured)
-  // Start positions: Red=0, Green=13, Yellow=26, Blue=39
-  // Star positions: 8, 21, 34, 47
-  private readonly SAFE_SPOT_POSITIONS = [0, 8, 13, 21, 26, 34, 39, 47];
-  
-  // Player start offsets on the 52-cell track
-  private readonly PLAYER_START_OFFSETS: Record<PlayerColor, number> = {
-    red: 0,
-    green: 13,
-    yellow: 26,
-    blue: 39
-  };
-
-  private canMovePiece(piece: GamePiece, roll: number, room: GameRoom): boolean {
-    if (piece.position === -1) {
-      return roll === 6;
-    }
-    if (piece.position + roll > 57) return false;
-    return true;
-  }
-
-  // Check if a piece is on a safe spot (using absolute track position)
-  private isPieceOnSafeSpot(piece: GamePiece): boolean {
-    // Positions 51-57 are home path (always safe)
-    if (piece.position >= 51) return true;
-    // Position -1 is base (always safe)
-    if (piece.position < 0) return true;
-    // Position 99 is finished (always safe)
-    if (piece.position === 99) return true;
-    
-    // Get absolute track position and check against safe spots
-    const absolutePos = this.getAbsoluteTrackPosition(piece);
-    return this.SAFE_SPOT_POSITIONS.includes(absolutePos);
-  }
-
-  // Convert a piece's relative position to absolute track position (0-51)
-  private getAbsoluteTrackPosition(piece: GamePiece): number {
-    if (piece.position < 0 || piece.position > 50) {
-      return -1; // Not on main track (base, home path, or finished)
-    }
-    const offset = this.PLAYER_START_OFFSETS[piece.color];
-    return (piece.position + offset) % 52;
-  }
-
-  // Check if two pieces are on the same track position
-  private arePiecesOnSamePosition(piece1: GamePiece, piece2: GamePiece): boolean {
-    // Both must be on the main track (position 0-50)
-    if (piece1.position < 0 || piece1.position > 50) return false;
-    if (piece2.position < 0 || piece2.position > 50) return false;
-    
-    const pos1 = this.getAbsoluteTrackPosition(piece1);
-    const pos2 = this.getAbsoluteTrackPosition(piece2);
-    
-    return pos1 === pos2;
+  // Move the game on past a turn that can't be played, e.g. after a bot step
+  // or a timeout failed, so the room doesn't wait on it forever
+  skipTurn(roomCode: string): GameRoom | null {
+    const room = this.rooms.get(roomCode);
+    if (!room || !room.gameState.started || room.gameState.winner) return null;
+
+    this.act(room, null, { type: 'pass' });
+    this.startTurnClock(room);
+    this.persist(room);
+    return room;
   }
 
-  movePiece(playerId: string, pieceId: string): { room: GameRoom; captured: GamePiece | null } | null {
+  // Hand a seat to a greedy bot under a new id, so the old player's
+  // connection can no longer act for it
+  private replaceWithBot(room: GameRoom, playerId: string) {
+    const player = room.players.find(p => p.id === playerId);
+    if (!player) return;
+
+    const botId = `bot-${randomUUID()}`;
+    player.id = botId;
+    player.bot = 'greedy';
+    player.connected = true;
+    room.diceAudit.clientSeeds[botId] = room.diceAudit.clientSeeds[playerId];
+    this.playerToRoom.delete(playerId);
+    this.playerToRoom.set(botId, room.code);
+    this.migrateHost(room);
+  }
+
+  // Room of a started game in which it is this player's turn
+  private getTurnRoom(playerId: string): GameRoom | null {
     const roomCode = this.playerToRoom.get(playerId);
     if (!roomCode) return null;
 
     const room = this.rooms.get(roomCode);
     if (!room || !room.gameState.started) return null;
 
-    const currentPlayer = room.players[room.gameState.currentTurnIndex];
-    if (currentPlayer.id !== playerId) {
-      throw new Error('Not your turn');
-    }
-
-    if (!room.gameState.waitingForMove || !room.gameState.diceValue) {
-      throw new Error('Roll the dice first');
-    }
-
-    const piece = room.gameState.pieces.find(p => p.id === pieceId);
-    if (!piece || piece.color !== currentPlayer.color) {
-      throw new Error('Invalid piece');
-    }
-
-    if (!this.canMovePiece(piece, room.gameState.diceValue, room)) {
-      throw new Error('Invalid move');
-    }
-
-    // Execute move
-    const roll = room.gameState.diceValue;
-    const previousPosition = piece.position;
-    
-    if (piece.position === -1) {
-      piece.position = 0;
-    } else {
-      piece.position += roll;
-    }
-
-    // Update isSafe status
-    piece.isSafe = this.isPieceOnSafeSpot(piece);
-
-    // Check for capture (only on main track, positions 0-50)
-    let capturedPiece: GamePiece | null = null;
-    
-    // Only check for captures on main track (positions 0-50, not home path 51+)
-    if (piece.position >= 0 && piece.position <= 50) {
-      // Find opponent pieces on the same absolute track position
-      const absolutePos = this.getAbsoluteTrackPosition(piece);
-      
-      // Check if the landing spot is a safe spot
-      const isLandingSpotSafe = this.SAFE_SPOT_POSITIONS.includes(absolutePos);
-      
-      // Only attempt capture if NOT on a safe spot
-      if (!isLandingSpotSafe) {
-        for (const otherPiece of room.gameState.pieces) {
-          // Skip the piece that just moved
-          if (otherPiece.id === piece.id) continue;
-          // Skip same color pieces
-          if (otherPiece.color === piece.color) continue;
-          // Skip pieces not on main track (in base, home path, or finished)
-          if (otherPiece.position < 0 || otherPiece.position > 50) continue;
-          
-          const otherAbsolutePos = this.getAbsoluteTrackPosition(otherPiece);
-                    
-          if (absolutePos === otherAbsolutePos) {
-            // Capture! Send the piece back to base
-            capturedPiece = { ...otherPiece };
-            otherPiece.position = -1;
-            otherPiece.isSafe = true;
-            break; // Only capture one piece
-          }
-        }
-      }
-      
+    const currentPlayer = getTurnPlayer(room);
+    if (currentPlayer?.id !== playerId) {
+      throw new GameError('NOT_YOUR_TURN', 'Not your turn');
     }
 
-    // Check for finish
-    if (piece.position === 57) {
-      piece.position = 99;
-      piece.isSafe = true;
+    return room;
+  }
+
+  private roll(room: GameRoom, playerId: string): number {
+    if (room.gameState.waitingForMove) {
+      throw new GameError('ALREADY_ROLLED', 'Already rolled, make your move');
     }
 
-    // Check for winner
-    const playerPieces = room.gameState.pieces.filter(p => p.color === currentPlayer.color);
-    if (playerPieces.every(p => p.position === 99)) {
-      room.gameState.winner = currentPlayer.color;
+    const { value, record } = this.rollForDiceMode(room);
+    this.act(room, playerId, { type: 'roll', value }, record);
+    return value;
+  }
+
+  private move(room: GameRoom, playerId: string, pieceId: string): GamePiece | null {
+    const events = this.act(room, playerId, { type: 'move', pieceId });
+    const capture = events.find(e => e.type === 'captured');
+    return capture?.type === 'captured' ? capture.piece : null;
+  }
+
+  // Apply an action to the room's game and log it. A roll can end a quick
+  // game too, once the turn limit is reached.
+  private act(room: GameRoom, playerId: string | null, action: EngineAction, roll: DiceRollRecord | null = null): EngineEvent[] {
+    const { state, events } = applyAction(room.gameState, action, createEngineContext(room));
+    room.gameState = state;
+    if (roll) room.diceAudit.rolls.push(roll);
+
+    // Game over: reveal the server seed so every roll can be verified
+    if (state.winner) {
+      room.diceAudit.serverSeed = this.serverSeeds.get(room.code) || null;
     }
 
-    room.gameState.waitingForMove = false;
-    
-    // Next turn rules:
-    // - Get another turn if rolled a 6
-    // - Get another turn if captured a piece
-    const getAnotherTurn = roll === 6 || capturedPiece !== null;
-    
-    if (!getAnotherTurn && !room.gameState.winner) {
-      // Turn is changing to next player - save last roll for probability calculation
-      room.gameState.lastDiceValue = roll;
-      room.gameState.isFirstRollOfTurn = true; // Reset for next player
-      room.gameState.currentTurnIndex = (room.gameState.currentTurnIndex + 1) % room.players.length;
+    this.recordEvents(room, playerId, events);
+    if (state.winner) {
+      this.finishedAt.set(room.code, Date.now());
+      const finished = structuredClone(room);
+      this.enqueueWrite(room.code, () => this.storage.saveCompletedGame(finished));
     }
-    room.gameState.diceValue = null;
+    return events;
+  }
+
+  // End a quick game on points once its time limit has passed
+  endOnTime(roomCode: string): GameRoom | null {
+    const room = this.rooms.get(roomCode);
+    if (!room) return null;
+
+    const { endsAt, winner } = room.gameState;
+    if (!endsAt || winner || Date.now() < endsAt) return null;
 
-    return { room, captured: capturedPiece };
+    this.act(room, null, { type: 'time_up' });
+    this.startTurnClock(room);
+    this.persist(room);
+    return room;
+  }
+
+  // Give whoever is up a fresh deadline. Bots and finished games are never timed.
+  private startTurnClock(room: GameRoom) {
+    const { gameState, turnTimer } = room;
+    const currentPlayer = getTurnPlayer(room);
+    const timed = turnTimer.seconds > 0 && gameState.started && !gameState.winner && currentPlayer && !currentPlayer.bot;
+    gameState.turnDeadline = timed ? Date.now() + turnTimer.seconds * 1000 : null;
   }
 
-  leaveRoom(playerId: string): string | null {
+  // The player acted in time, so their run of timeouts is over
+  private clearTimeouts(room: GameRoom, playerId: string) {
+    const color = room.players.find(p => p.id === playerId)?.color;
+    if (color && room.gameState.consecutiveTimeouts[color]) {
+      room.gameState.consecutiveTimeouts = { ...room.gameState.consecutiveTimeouts, [color]: 0 };
+    }
+  }
+
+  setPlayerConnected(playerId: string, connected: boolean): GameRoom | null {
     const roomCode = this.playerToRoom.get(playerId);
     if (!roomCode) return null;
 
     const room = this.rooms.get(roomCode);
     if (!room) return null;
 
+    const player = room.players.find(p => p.id === playerId);
+    if (player) {
+      const hostId = room.hostId;
+      player.connected = connected;
+      this.migrateHost(room);
+      // Connection state isn't stored, but a new host is
+      if (room.hostId !== hostId) {
+        this.persist(room);
+      } else {
+        room.version++;
+      }
+    }
+
+    return room;
+  }
+
+  // Returns the room left, with `closed` set if it was deleted because only
+  // bots were left; the caller tells everyone still in it
+  leaveRoom(playerId: string): { roomCode: string; closed: ClosedRoom | null } | null {
+    const roomCode = this.playerToRoom.get(playerId);
+    if (!roomCode) return null;
+
+    const room = this.rooms.get(roomCode);
+    if (!room) return null;
+
+    const { turnOrder } = createEngineContext(room);
+    const colors = room.players.find(p => p.id === playerId)?.colors || [];
     room.players = room.players.filter(p => p.id !== playerId);
     this.playerToRoom.delete(playerId);
 
-    // Delete room if empty
-    if (room.players.length === 0) {
-      this.rooms.delete(roomCode);
+    // Delete room once only bots are left
+    if (room.players.every(p => p.bot)) {
+      const closed: ClosedRoom = { room, spectators: this.getSpectators(roomCode), reason: 'abandoned' };
+      this.deleteRoom(roomCode);
+      return { roomCode, closed };
     }
 
-    return roomCode;
+    if (room.gameState.started) {
+      this.closeSeats(room, turnOrder, colors);
+    }
+    this.migrateHost(room);
+    this.persist(room);
+    return { roomCode, closed: null };
+  }
+
+  // Forget a room and everyone in it. A finished game was already archived
+  // with saveCompletedGame when it was won.
+  private deleteRoom(roomCode: string) {
+    const room = this.rooms.get(roomCode);
+    room?.players.forEach(p => this.playerToRoom.delete(p.id));
+    this.getSpectators(roomCode).forEach(id => this.spectatorToRoom.delete(id));
+    this.rooms.delete(roomCode);
+    this.serverSeeds.delete(roomCode);
+    this.eventLogs.delete(roomCode);
+    this.lastActivity.delete(roomCode);
+    this.finishedAt.delete(roomCode);
+    this.enqueueWrite(roomCode, () => this.storage.deleteRoom(roomCode));
+  }
+
+  // Called for every message a player sends, so a room stays open while
+  // anyone in it is doing something. Bot moves and timeouts don't count.
+  recordActivity(playerId: string) {
+    const roomCode = this.playerToRoom.get(playerId);
+    if (roomCode) this.lastActivity.set(roomCode, Date.now());
+  }
+
+  // Close expired rooms every SWEEP_INTERVAL_MS; onClose tells their occupants
+  startSweeper(onClose: (closed: ClosedRoom) => void) {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.sweep().forEach(onClose), SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  stopSweeper() {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.sweepTimer = null;
+  }
+
+  sweep(now: number = Date.now()): ClosedRoom[] {
+    const closed: ClosedRoom[] = [];
+    Array.from(this.rooms.values()).forEach(room => {
+      const reason = this.closeReason(room, now);
+      if (!reason) return;
+
+      closed.push({ room, spectators: this.getSpectators(room.code), reason });
+      this.deleteRoom(room.code);
+    });
+    return closed;
+  }
+
+  private closeReason(room: GameRoom, now: number): RoomClosedReason | null {
+    const finishedAt = this.finishedAt.get(room.code);
+    if (finishedAt !== undefined) {
+      return now - finishedAt >= FINISHED_ROOM_TTL_MS ? 'finished' : null;
+    }
+
+    // Bots that took over every seat would otherwise play on forever
+    if (room.players.every(p => p.bot)) return 'abandoned';
+
+    const idleFor = now - (this.lastActivity.get(room.code) ?? room.createdAt);
+    const limit = room.gameState.started ? GAME_IDLE_MS : LOBBY_IDLE_MS;
+    return idleFor >= limit ? 'idle' : null;
+  }
+
+  // Keep the turn on the same colour after a player's seats empty mid-game. If
+  // it was the leaver's turn, the next colour still playing starts a fresh turn.
+  private closeSeats(room: GameRoom, previousOrder: PlayerColor[], colors: PlayerColor[]) {
+    const { gameState } = room;
+    const ctx = createEngineContext(room);
+    const current = previousOrder[gameState.currentTurnIndex];
+    if (!colors.includes(current)) {
+      gameState.currentTurnIndex = ctx.turnOrder.indexOf(current);
+      return;
+    }
+
+    const after = [...previousOrder.slice(gameState.currentTurnIndex), ...previousOrder];
+    const next = after.find(color => !colors.includes(color))!;
+    gameState.currentTurnIndex = nextActiveSeat(gameState, ctx, ctx.turnOrder.indexOf(next));
+    gameState.diceValue = null;
+    gameState.waitingForMove = false;
+    gameState.isFirstRollOfTurn = true;
+    gameState.consecutiveSixes = 0;
+    this.startTurnClock(room);
   }
 
   getRoom(playerId: string): GameRoom | null {
@@ -455,4 +932,21 @@ export class GameManager {
   getRoomByCode(code: string): GameRoom | null {
     return this.rooms.get(code) || null;
   }
+
+  // Event log of a live room, in the same shape as a stored finished game
+  getReplay(code: string): GameReplay | null {
+    const room = this.rooms.get(code);
+    if (!room) return null;
+
+    return {
+      code: room.code,
+      gameMode: room.gameMode,
+      players: room.players,
+      rules: room.rules,
+      events: this.eventLogs.get(code) || [],
+      finished: room.gameState.winner !== null,
+    };
+  }
 }
+
+export const gameManager = new GameManager(storage);
@@ -0,0 +1,79 @@
+import { WebSocket } from 'ws';
+import { log } from './index';
+
+// How often every socket is pinged, and how long it has to answer before the
+// connection is treated as dead
+const HEARTBEAT_INTERVAL_MS = Number(process.env.HEARTBEAT_INTERVAL_MS) || 15000;
+const HEARTBEAT_TIMEOUT_MS = Number(process.env.HEARTBEAT_TIMEOUT_MS) || 10000;
+
+interface SocketHealth {
+  pingSentAt: number | null; // Set while a pong is outstanding
+  latency: number | null; // Round trip of the last answered ping
+  deadline: NodeJS.Timeout | null;
+}
+
+// Sends WebSocket protocol pings, which browsers answer on their own. A socket
+// that misses the deadline is terminated; its 'close' handler then runs as for
+// any other drop, so the player's seat is held for them to resume.
+export class Heartbeat {
+  private sockets: Map<WebSocket, SocketHealth> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private onTick: () => void) {}
+
+  track(ws: WebSocket) {
+    const health: SocketHealth = { pingSentAt: null, latency: null, deadline: null };
+    this.sockets.set(ws, health);
+
+    ws.on('pong', () => {
+      if (health.pingSentAt === null) return;
+      health.latency = Date.now() - health.pingSentAt;
+      health.pingSentAt = null;
+      this.clearDeadline(health);
+    });
+
+    ws.on('close', () => {
+      this.clearDeadline(health);
+      this.sockets.delete(ws);
+    });
+  }
+
+  getLatency(ws: WebSocket): number | null {
+    return this.sockets.get(ws)?.latency ?? null;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), HEARTBEAT_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.sockets.forEach(health => this.clearDeadline(health));
+  }
+
+  private tick() {
+    this.sockets.forEach((health, ws) => {
+      if (health.pingSentAt !== null || ws.readyState !== WebSocket.OPEN) return;
+
+      health.pingSentAt = Date.now();
+      health.deadline = setTimeout(() => {
+        log(`No pong within ${HEARTBEAT_TIMEOUT_MS}ms, terminating connection`, 'websocket');
+        ws.terminate();
+      }, HEARTBEAT_TIMEOUT_MS);
+      ws.ping();
+    });
+
+    this.onTick();
+  }
+
+  private clearDeadline(health: SocketHealth) {
+    if (health.deadline) {
+      clearTimeout(health.deadline);
+      health.deadline = null;
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GameError } from '@shared/errors';
+import { RateLimiter } from './rate-limiter';
+
+// The real module starts the server
+vi.mock('./index', () => ({ log: vi.fn() }));
+
+// The code of the GameError fn throws, or null if it doesn't throw
+function errorCode(fn: () => void): string | null {
+  try {
+    fn();
+    return null;
+  } catch (error) {
+    return (error as GameError).code;
+  }
+}
+
+describe('RateLimiter', () => {
+  let liveRooms: Set<string>;
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    liveRooms = new Set();
+    limiter = new RateLimiter(code => liveRooms.has(code));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows a burst up to the limit, then refuses', () => {
+    for (let i = 0; i < 3; i++) {
+      expect(errorCode(() => limiter.check('1.1.1.1', 'c1', 'create'))).toBeNull();
+    }
+    expect(errorCode(() => limiter.check('1.1.1.1', 'c1', 'create'))).toBe('RATE_LIMITED');
+  });
+
+  it('refills over time', () => {
+    for (let i = 0; i < 3; i++) limiter.check('1.1.1.1', 'c1', 'create');
+
+    // create allows 3 a minute, so one comes back every 20 seconds
+    vi.advanceTimersByTime(20 * 1000);
+
+    expect(errorCode(() => limiter.check('1.1.1.1', 'c1', 'create'))).toBeNull();
+    expect(errorCode(() => limiter.check('1.1.1.1', 'c1', 'create'))).toBe('RATE_LIMITED');
+  });
+
+  it('limits each connection on its own but caps the address at four connections\' worth', () => {
+    ['c1', 'c2', 'c3', 'c4'].forEach(clientId => {
+      for (let i = 0; i < 3; i++) {
+        expect(errorCode(() => limiter.check('1.1.1.1', clientId, 'create'))).toBeNull();
+      }
+    });
+
+    expect(errorCode(() => limiter.check('1.1.1.1', 'c5', 'create'))).toBe('RATE_LIMITED');
+    expect(errorCode(() => limiter.check('2.2.2.2', 'c6', 'create'))).toBeNull();
+  });
+
+  it('bans a connection that keeps hitting the limit, for a while', () => {
+    for (let i = 0; i < 3 + 30; i++) {
+      errorCode(() => limiter.check('1.1.1.1', 'c1', 'create'));
+    }
+
+    expect(errorCode(() => limiter.check('1.1.1.1', 'c1', 'chat'))).toBe('BANNED');
+    // Others sharing the address carry on
+    expect(errorCode(() => limiter.check('1.1.1.1', 'c2', 'chat'))).toBeNull();
+    expect(errorCode(() => limiter.checkBan('1.1.1.1'))).toBeNull();
+
+    vi.advanceTimersByTime(10 * 60 * 1000);
+
+    expect(errorCode(() => limiter.check('1.1.1.1', 'c1', 'chat'))).toBeNull();
+  });
+
+  it('bans the whole address once its connections hit the limit four times as often', () => {
+    ['c1', 'c2', 'c3', 'c4'].forEach(clientId => {
+      for (let i = 0; i < 3 + 30; i++) {
+        errorCode(() => limiter.check('1.1.1.1', clientId, 'create'));
+      }
+    });
+
+    expect(errorCode(() => limiter.check('1.1.1.1', 'c5', 'chat'))).toBe('BANNED');
+    expect(errorCode(() => limiter.checkBan('1.1.1.1'))).toBe('BANNED');
+    expect(errorCode(() => limiter.checkBan('2.2.2.2'))).toBeNull();
+  });
+
+  it('caps the open rooms per address, counting only rooms still live', () => {
+    ['R1', 'R2', 'R3', 'R4', 'R5'].forEach(code => {
+      liveRooms.add(code);
+      limiter.trackRoom('1.1.1.1', code);
+    });
+
+    expect(errorCode(() => limiter.checkRoomLimit('1.1.1.1'))).toBe('TOO_MANY_ROOMS');
+    expect(errorCode(() => limiter.checkRoomLimit('2.2.2.2'))).toBeNull();
+
+    liveRooms.delete('R3');
+
+    expect(errorCode(() => limiter.checkRoomLimit('1.1.1.1'))).toBeNull();
+  });
+});
@@ -0,0 +1,172 @@
+import { WSMessage } from '@shared/schema';
+import { GameError } from '@shared/errors';
+import { log } from './index';
+
+// A bucket holds up to `capacity` tokens and refills completely over `seconds`
+interface BucketLimit {
+  capacity: number;
+  seconds: number;
+}
+
+// '*' covers every message from a connection, including ones that fail to parse
+type LimitKey = WSMessage['type'] | '*';
+
+const DEFAULT_LIMITS: Partial<Record<LimitKey, BucketLimit>> = {
+  '*': { capacity: 40, seconds: 10 },
+  create: { capacity: 3, seconds: 60 },
+  join: { capacity: 10, seconds: 60 },
+  spectate: { capacity: 10, seconds: 60 },
+  roll_dice: { capacity: 10, seconds: 10 },
+  move_piece: { capacity: 10, seconds: 10 },
+  chat: { capacity: 10, seconds: 10 },
+  emote: { capacity: 10, seconds: 10 },
+};
+const FALLBACK_LIMIT: BucketLimit = { capacity: 20, seconds: 10 };
+
+// WS_RATE_LIMITS overrides individual limits, e.g. "create=5/60,chat=20/10"
+function parseLimits(value: string | undefined): Partial<Record<LimitKey, BucketLimit>> {
+  const limits = { ...DEFAULT_LIMITS };
+  (value || '').split(',').forEach(entry => {
+    const match = entry.trim().match(/^([\w*]+)=(\d+)\/(\d+)$/);
+    if (!match) return;
+    limits[match[1] as LimitKey] = { capacity: Number(match[2]), seconds: Number(match[3]) };
+  });
+  return limits;
+}
+
+const LIMITS = parseLimits(process.env.WS_RATE_LIMITS);
+// Several tabs or a shared network can sit behind one address, so each IP
+// gets this many times a single connection's allowance
+const IP_LIMIT_MULTIPLIER = Number(process.env.WS_IP_LIMIT_MULTIPLIER) || 4;
+const MAX_ROOMS_PER_IP = Number(process.env.WS_MAX_ROOMS_PER_IP) || 5;
+// A connection that hits a limit this many times within a minute is banned for
+// a while; its IP only once it reaches IP_LIMIT_MULTIPLIER times as many
+const BAN_THRESHOLD = Number(process.env.WS_BAN_THRESHOLD) || 30;
+const BAN_DURATION_MS = Number(process.env.WS_BAN_DURATION_MS) || 10 * 60 * 1000;
+const VIOLATION_WINDOW_MS = 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private limit: BucketLimit) {
+    this.tokens = limit.capacity;
+  }
+
+  take(now: number): boolean {
+    this.refill(now);
+    if (this.tokens < 1) return false;
+    this.tokens--;
+    return true;
+  }
+
+  // Nothing to remember once it has refilled
+  isFull(now: number): boolean {
+    this.refill(now);
+    return this.tokens >= this.limit.capacity;
+  }
+
+  private refill(now: number) {
+    const rate = this.limit.capacity / (this.limit.seconds * 1000);
+    this.tokens = Math.min(this.limit.capacity, this.tokens + (now - this.updatedAt) * rate);
+    this.updatedAt = now;
+  }
+}
+
+export class RateLimiter {
+  private buckets: Map<string, TokenBucket> = new Map();
+  private violations: Map<string, number[]> = new Map();
+  private bans: Map<string, number> = new Map(); // client:<id> or ip:<address> -> banned until
+  private roomsByIp: Map<string, Set<string>> = new Map();
+
+  constructor(private isRoomLive: (roomCode: string) => boolean) {
+    setInterval(() => this.prune(), PRUNE_INTERVAL_MS).unref();
+  }
+
+  // Throws if this message should be refused
+  check(ip: string, clientId: string, type: LimitKey) {
+    const now = Date.now();
+    this.checkBan(ip, clientId, now);
+
+    const keys: LimitKey[] = type === '*' ? ['*'] : ['*', type];
+    for (const key of keys) {
+      const limit = LIMITS[key] || FALLBACK_LIMIT;
+      const ipLimit = { capacity: limit.capacity * IP_LIMIT_MULTIPLIER, seconds: limit.seconds };
+      if (!this.take(`client:${clientId}:${key}`, limit, now) || !this.take(`ip:${ip}:${key}`, ipLimit, now)) {
+        this.recordViolation(`client:${clientId}`, BAN_THRESHOLD, now);
+        this.recordViolation(`ip:${ip}`, BAN_THRESHOLD * IP_LIMIT_MULTIPLIER, now);
+        throw new GameError('RATE_LIMITED', 'You are sending too many requests, slow down');
+      }
+    }
+  }
+
+  // Without a clientId only the IP is checked, as when a connection opens
+  checkBan(ip: string, clientId?: string, now: number = Date.now()) {
+    const keys = clientId ? [`ip:${ip}`, `client:${clientId}`] : [`ip:${ip}`];
+    const until = Math.max(...keys.map(key => this.bans.get(key) ?? 0));
+    if (until <= now) return;
+    const minutes = Math.ceil((until - now) / 60000);
+    throw new GameError('BANNED', `Too many requests; try again in ${minutes} minute${minutes === 1 ? '' : 's'}`);
+  }
+
+  // Call before creating a room for this IP
+  checkRoomLimit(ip: string) {
+    const rooms = this.roomsByIp.get(ip);
+    if (!rooms) return;
+    this.dropClosedRooms(rooms);
+    if (rooms.size >= MAX_ROOMS_PER_IP) {
+      throw new GameError('TOO_MANY_ROOMS', `You can have at most ${MAX_ROOMS_PER_IP} open rooms`);
+    }
+  }
+
+  trackRoom(ip: string, roomCode: string) {
+    const rooms = this.roomsByIp.get(ip) || new Set();
+    rooms.add(roomCode);
+    this.roomsByIp.set(ip, rooms);
+  }
+
+  private dropClosedRooms(rooms: Set<string>) {
+    rooms.forEach(code => {
+      if (!this.isRoomLive(code)) rooms.delete(code);
+    });
+  }
+
+  private take(key: string, limit: BucketLimit, now: number): boolean {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(limit);
+      this.buckets.set(key, bucket);
+    }
+    return bucket.take(now);
+  }
+
+  private recordViolation(key: string, threshold: number, now: number) {
+    const recent = (this.violations.get(key) || []).filter(t => now - t < VIOLATION_WINDOW_MS);
+    recent.push(now);
+    this.violations.set(key, recent);
+
+    if (recent.length >= threshold) {
+      log(`Banning ${key} for ${BAN_DURATION_MS}ms after ${recent.length} rate limit violations`, 'websocket');
+      this.bans.set(key, now + BAN_DURATION_MS);
+      this.violations.delete(key);
+    }
+  }
+
+  private prune() {
+    const now = Date.now();
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.isFull(now)) this.buckets.delete(key);
+    });
+    this.violations.forEach((times, key) => {
+      if (times.every(t => now - t >= VIOLATION_WINDOW_MS)) this.violations.delete(key);
+    });
+    this.bans.forEach((until, key) => {
+      if (until <= now) this.bans.delete(key);
+    });
+    this.roomsByIp.forEach((rooms, ip) => {
+      this.dropClosedRooms(rooms);
+      if (rooms.size === 0) this.roomsByIp.delete(ip);
+    });
+  }
+}
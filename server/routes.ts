@@ -1,17 +1,54 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
 import { setupWebSocket } from "./websocket";
+import { gameManager } from "./game-manager";
+import { storage } from "./storage";
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
   // Initialize WebSocket server for real-time multiplayer
-  setupWebSocket(httpServer);
+  await setupWebSocket(httpServer);
 
-  // API routes (if needed in the future)
+  // API routes
   // prefix all routes with /api
 
+  // Dice commitment and roll log so anyone can verify a provably fair match,
+  // during the game or after it has been archived
+  app.get("/api/rooms/:code/dice", async (req, res, next) => {
+    try {
+      const code = req.params.code.toUpperCase();
+      const room = gameManager.getRoomByCode(code);
+      if (room) {
+        return res.json({ diceMode: room.diceMode, ...room.diceAudit });
+      }
+
+      const archived = await storage.getCompletedDiceAudit(code);
+      if (!archived) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+
+      res.json({ diceMode: archived.diceMode, ...archived.diceAudit });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Ordered event log for replaying a game, live or finished
+  app.get("/api/games/:code/events", async (req, res, next) => {
+    try {
+      const code = req.params.code.toUpperCase();
+      const replay = gameManager.getReplay(code) || await storage.getCompletedGame(code);
+      if (!replay) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      res.json(replay);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   return httpServer;
 }
@@ -0,0 +1,96 @@
+import { randomBytes } from 'crypto';
+import { IStorage } from './storage';
+import { log } from './index';
+
+// How long a disconnected player's seat stays reserved before they are removed
+const SESSION_GRACE_MS = parseInt(process.env.SESSION_GRACE_MS || '60000', 10);
+
+export class SessionManager {
+  private tokenToPlayer: Map<string, string> = new Map();
+  private playerToToken: Map<string, string> = new Map();
+  private graceTimers: Map<string, NodeJS.Timeout> = new Map();
+  // Room each spectator's token watches. Spectators aren't restored after a
+  // restart, so unlike players their tokens are never stored.
+  private spectatorRooms: Map<string, string> = new Map();
+
+  constructor(private storage: IStorage) {}
+
+  // Reload tokens issued before a restart so players can resume
+  async restore() {
+    const sessions = await this.storage.getSessions();
+    sessions.forEach(({ token, playerId }) => {
+      this.tokenToPlayer.set(token, playerId);
+      this.playerToToken.set(playerId, token);
+    });
+  }
+
+  // Issue (or re-issue) the resumable session token for a player
+  issue(playerId: string): string {
+    const existing = this.playerToToken.get(playerId);
+    // A spectator taking a seat keeps their token, which now needs storing
+    if (existing && !this.spectatorRooms.delete(playerId)) return existing;
+
+    const token = existing || this.createToken(playerId);
+    this.storage.saveSession({ token, playerId })
+      .catch(error => log(`Failed to save session: ${error}`, 'storage'));
+    return token;
+  }
+
+  // Issue (or re-issue) the token a spectator resumes watching roomCode with
+  issueSpectator(spectatorId: string, roomCode: string): string {
+    this.spectatorRooms.set(spectatorId, roomCode);
+    return this.playerToToken.get(spectatorId) || this.createToken(spectatorId);
+  }
+
+  // The room a spectator's session watches, or undefined for players
+  getSpectatedRoomCode(id: string): string | undefined {
+    return this.spectatorRooms.get(id);
+  }
+
+  // Reattach a token to its player, cancelling any pending removal
+  resume(token: string): string | null {
+    const playerId = this.tokenToPlayer.get(token);
+    if (!playerId) return null;
+
+    this.clearGrace(playerId);
+    return playerId;
+  }
+
+  // Keep the seat reserved for the grace period, then run onExpire
+  startGrace(playerId: string, onExpire: () => void) {
+    this.clearGrace(playerId);
+    const timer = setTimeout(() => {
+      this.graceTimers.delete(playerId);
+      this.revoke(playerId);
+      onExpire();
+    }, SESSION_GRACE_MS);
+    this.graceTimers.set(playerId, timer);
+  }
+
+  revoke(playerId: string) {
+    this.clearGrace(playerId);
+    const token = this.playerToToken.get(playerId);
+    if (token) {
+      this.tokenToPlayer.delete(token);
+      this.playerToToken.delete(playerId);
+      if (this.spectatorRooms.delete(playerId)) return;
+      this.storage.deleteSession(token)
+        .catch(error => log(`Failed to delete session: ${error}`, 'storage'));
+    }
+  }
+
+  private createToken(id: string): string {
+    const token = randomBytes(24).toString('hex');
+    this.tokenToPlayer.set(token, id);
+    this.playerToToken.set(id, token);
+    return token;
+  }
+
+  private clearGrace(playerId: string) {
+    const timer = this.graceTimers.get(playerId);
+    if (timer) {
+      clearTimeout(timer);
+      this.graceTimers.delete(playerId);
+    }
+  }
+}
@@ -1,14 +1,314 @@
-// Storage interface - currently not needed for real-time multiplayer
-// Game state is managed in memory by the WebSocket server
+import { eq, asc, desc } from "drizzle-orm";
+import {
+  type GameRoom,
+  type GameEvent,
+  type GameReplay,
+  type Player,
+  type DiceAudit,
+  type DiceMode,
+  rooms,
+  players,
+  sessions,
+  gameEvents,
+  completedGames,
+} from "@shared/schema";
+
+// Persistent storage for rooms, event logs and finished games. GameManager keeps
+// the live state in memory and writes through to this interface so rooms can
+// be rehydrated after a restart.
+
+export interface StoredRoom {
+  room: GameRoom;
+  serverSeed: string;
+}
+
+// Dice commitment and roll log of a finished game, kept so its fairness can
+// still be checked after the room is gone
+export interface StoredDiceAudit {
+  diceMode: DiceMode;
+  diceAudit: DiceAudit;
+}
+
+export interface StoredSession {
+  token: string;
+  playerId: string;
+}
 
 export interface IStorage {
-  // Add storage methods here if needed for persistent data
+  saveRoom(room: GameRoom, serverSeed: string): Promise<void>;
+  deleteRoom(code: string): Promise<void>;
+  getRooms(): Promise<StoredRoom[]>;
+  recordEvent(code: string, event: GameEvent): Promise<void>;
+  getEvents(code: string): Promise<GameEvent[]>;
+  saveCompletedGame(room: GameRoom): Promise<void>;
+  getCompletedGame(code: string): Promise<GameReplay | null>;
+  getCompletedDiceAudit(code: string): Promise<StoredDiceAudit | null>;
+  saveSession(session: StoredSession): Promise<void>;
+  deleteSession(token: string): Promise<void>;
+  getSessions(): Promise<StoredSession[]>;
+}
+
+// Players saved before they could hold several colours hold just the one they picked
+function withColors(player: Player): Player {
+  return player.colors?.length ? player : { ...player, colors: player.color ? [player.color] : [] };
+}
+
+// Rooms come back with every human marked disconnected until they resume,
+// and without the spectators who were watching
+function restorePlayers(room: GameRoom): GameRoom {
+  return {
+    ...room,
+    players: room.players.map(p => ({ ...withColors(p), connected: p.bot !== null })),
+    spectatorCount: 0,
+  };
 }
 
 export class MemStorage implements IStorage {
-  constructor() {
-    // Empty for now
+  private rooms: Map<string, StoredRoom> = new Map();
+  private events: Map<string, GameEvent[]> = new Map();
+  private completedGames: Array<{ room: GameRoom; events: GameEvent[]; finishedAt: number }> = [];
+  private sessions: Map<string, string> = new Map();
+
+  async saveRoom(room: GameRoom, serverSeed: string): Promise<void> {
+    this.rooms.set(room.code, { room: structuredClone(room), serverSeed });
+  }
+
+  async deleteRoom(code: string): Promise<void> {
+    this.rooms.delete(code);
+    this.events.delete(code);
+  }
+
+  async getRooms(): Promise<StoredRoom[]> {
+    return Array.from(this.rooms.values()).map(({ room, serverSeed }) => ({
+      room: restorePlayers(structuredClone(room)),
+      serverSeed,
+    }));
+  }
+
+  async recordEvent(code: string, event: GameEvent): Promise<void> {
+    const list = this.events.get(code) || [];
+    list.push(structuredClone(event));
+    this.events.set(code, list);
+  }
+
+  async getEvents(code: string): Promise<GameEvent[]> {
+    return structuredClone(this.events.get(code) || []);
+  }
+
+  async saveCompletedGame(room: GameRoom): Promise<void> {
+    this.completedGames.push({
+      room: structuredClone(room),
+      events: await this.getEvents(room.code),
+      finishedAt: Date.now(),
+    });
+  }
+
+  async getCompletedGame(code: string): Promise<GameReplay | null> {
+    const game = this.completedGames.filter(g => g.room.code === code).pop();
+    if (!game) return null;
+
+    return structuredClone({
+      code: game.room.code,
+      gameMode: game.room.gameMode,
+      players: game.room.players,
+      rules: game.room.rules,
+      events: game.events,
+      finished: true,
+    });
+  }
+
+  async getCompletedDiceAudit(code: string): Promise<StoredDiceAudit | null> {
+    const game = this.completedGames.filter(g => g.room.code === code).pop();
+    if (!game) return null;
+
+    return structuredClone({ diceMode: game.room.diceMode, diceAudit: game.room.diceAudit });
+  }
+
+  async saveSession(session: StoredSession): Promise<void> {
+    this.sessions.set(session.token, session.playerId);
+  }
+
+  async deleteSession(token: string): Promise<void> {
+    this.sessions.delete(token);
+  }
+
+  async getSessions(): Promise<StoredSession[]> {
+    return Array.from(this.sessions.entries()).map(([token, playerId]) => ({ token, playerId }));
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  // Loaded lazily so the in-memory storage never needs DATABASE_URL
+  private dbPromise = import("./db").then(m => m.db);
+
+  async saveRoom(room: GameRoom, serverSeed: string): Promise<void> {
+    const db = await this.dbPromise;
+    const now = new Date();
+    const row = {
+      code: room.code,
+      gameMode: room.gameMode,
+      hostId: room.hostId,
+      locked: room.locked,
+      rules: room.rules,
+      diceMode: room.diceMode,
+      diceAudit: room.diceAudit,
+      turnTimer: room.turnTimer,
+      serverSeed,
+      gameState: room.gameState,
+      createdAt: new Date(room.createdAt),
+      updatedAt: now,
+    };
+
+    const { code, createdAt, ...updates } = row;
+
+    await db.transaction(async (tx) => {
+      await tx.insert(rooms).values(row).onConflictDoUpdate({
+        target: rooms.code,
+        set: updates,
+      });
+      await tx.delete(players).where(eq(players.roomCode, room.code));
+      if (room.players.length > 0) {
+        await tx.insert(players).values(room.players.map((p, seat) => ({
+          id: p.id,
+          roomCode: room.code,
+          seat,
+          name: p.name,
+          color: p.color,
+          colors: p.colors,
+          ready: p.ready,
+          bot: p.bot,
+        })));
+      }
+    });
+  }
+
+  async deleteRoom(code: string): Promise<void> {
+    const db = await this.dbPromise;
+    // Players and events cascade
+    await db.delete(rooms).where(eq(rooms.code, code));
+  }
+
+  async getRooms(): Promise<StoredRoom[]> {
+    const db = await this.dbPromise;
+    const roomRows = await db.select().from(rooms);
+    const playerRows = await db.select().from(players).orderBy(asc(players.seat));
+
+    return roomRows.map(row => ({
+      serverSeed: row.serverSeed,
+      room: restorePlayers({
+        code: row.code,
+        players: playerRows
+          .filter(p => p.roomCode === row.code)
+          .map(p => ({
+            id: p.id,
+            name: p.name,
+            color: p.color,
+            colors: p.colors,
+            ready: p.ready,
+            connected: false,
+            bot: p.bot,
+          })),
+        hostId: row.hostId,
+        locked: row.locked,
+        gameMode: row.gameMode,
+        rules: row.rules,
+        diceMode: row.diceMode,
+        diceAudit: row.diceAudit,
+        turnTimer: row.turnTimer,
+        gameState: row.gameState,
+        spectatorCount: 0,
+        // Versions only matter to connected clients, and none survive a restart
+        version: 0,
+        createdAt: row.createdAt.getTime(),
+      }),
+    }));
+  }
+
+  async recordEvent(code: string, event: GameEvent): Promise<void> {
+    const db = await this.dbPromise;
+    const { seq, playerId, createdAt, ...data } = event;
+    await db.insert(gameEvents).values({
+      roomCode: code,
+      seq,
+      playerId,
+      type: event.type,
+      data,
+      createdAt: new Date(createdAt),
+    });
+  }
+
+  async getEvents(code: string): Promise<GameEvent[]> {
+    const db = await this.dbPromise;
+    const rows = await db.select().from(gameEvents).where(eq(gameEvents.roomCode, code)).orderBy(asc(gameEvents.seq));
+    return rows.map(row => ({
+      ...row.data,
+      seq: row.seq,
+      playerId: row.playerId,
+      createdAt: row.createdAt.getTime(),
+    }));
+  }
+
+  async saveCompletedGame(room: GameRoom): Promise<void> {
+    const db = await this.dbPromise;
+    await db.insert(completedGames).values({
+      roomCode: room.code,
+      gameMode: room.gameMode,
+      winner: room.gameState.winner,
+      players: room.players,
+      rules: room.rules,
+      finalState: room.gameState,
+      diceMode: room.diceMode,
+      diceAudit: room.diceAudit,
+      events: await this.getEvents(room.code),
+      createdAt: new Date(room.createdAt),
+      finishedAt: new Date(),
+    });
+  }
+
+  async getCompletedGame(code: string): Promise<GameReplay | null> {
+    const db = await this.dbPromise;
+    const [row] = await db.select().from(completedGames)
+      .where(eq(completedGames.roomCode, code))
+      .orderBy(desc(completedGames.finishedAt))
+      .limit(1);
+    if (!row) return null;
+
+    return {
+      code: row.roomCode,
+      gameMode: row.gameMode,
+      players: row.players.map(withColors),
+      rules: row.rules,
+      events: row.events,
+      finished: true,
+    };
+  }
+
+  async getCompletedDiceAudit(code: string): Promise<StoredDiceAudit | null> {
+    const db = await this.dbPromise;
+    const [row] = await db.select().from(completedGames)
+      .where(eq(completedGames.roomCode, code))
+      .orderBy(desc(completedGames.finishedAt))
+      .limit(1);
+    // Games archived before audits were kept have none to show
+    if (!row || !row.diceMode || !row.diceAudit) return null;
+
+    return { diceMode: row.diceMode, diceAudit: row.diceAudit };
+  }
+
+  async saveSession(session: StoredSession): Promise<void> {
+    const db = await this.dbPromise;
+    await db.insert(sessions).values(session).onConflictDoNothing();
+  }
+
+  async deleteSession(token: string): Promise<void> {
+    const db = await this.dbPromise;
+    await db.delete(sessions).where(eq(sessions.token, token));
+  }
+
+  async getSessions(): Promise<StoredSession[]> {
+    const db = await this.dbPromise;
+    return db.select().from(sessions);
   }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = process.env.DATABASE_URL ? new DatabaseStorage() : new MemStorage();
@@ -0,0 +1,80 @@
+import { GameRoom } from '@shared/schema';
+import { getTurnPlayer } from '@shared/ludo-engine';
+import { GameManager, TimeoutResult } from './game-manager';
+import { log } from './index';
+
+// Wait before trying again when a turn could be neither played nor passed
+const RETRY_DELAY_MS = 5000;
+
+type TimeoutHandler = (result: TimeoutResult) => void;
+
+// Enforces gameState.turnDeadline. Call schedule() after anything that may
+// change the deadline; the old timer for the room is replaced.
+export class TurnTimer {
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(
+    private gameManager: GameManager,
+    private onTimeout: TimeoutHandler,
+  ) {}
+
+  schedule(room: GameRoom) {
+    this.cancel(room.code);
+
+    const deadline = room.gameState.turnDeadline;
+    if (!deadline) return;
+
+    const timer = setTimeout(() => this.expire(room.code), Math.max(deadline - Date.now(), 0));
+    this.timers.set(room.code, timer);
+  }
+
+  cancel(roomCode: string) {
+    const timer = this.timers.get(roomCode);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(roomCode);
+    }
+  }
+
+  private expire(roomCode: string) {
+    this.timers.delete(roomCode);
+
+    let result: TimeoutResult | null;
+    try {
+      result = this.gameManager.playTimeout(roomCode);
+    } catch (error: any) {
+      log(`Turn timeout failed in ${roomCode}: ${error.message}`, 'websocket');
+      try {
+        // Pass the turn instead, which also sets the next deadline
+        result = this.skipTurn(roomCode);
+      } catch (skipError: any) {
+        log(`Passing the turn failed in ${roomCode}: ${skipError.message}`, 'websocket');
+        this.timers.set(roomCode, setTimeout(() => this.expire(roomCode), RETRY_DELAY_MS));
+        return;
+      }
+    }
+
+    if (result) {
+      try {
+        this.onTimeout(result);
+      } catch (error: any) {
+        log(`Handling the turn timeout failed in ${roomCode}: ${error.message}`, 'websocket');
+      }
+    }
+
+    const room = this.gameManager.getRoomByCode(roomCode);
+    if (room) {
+      this.schedule(room);
+    }
+  }
+
+  private skipTurn(roomCode: string): TimeoutResult | null {
+    const room = this.gameManager.getRoomByCode(roomCode);
+    const player = room && getTurnPlayer(room);
+    if (!room || !player) return null;
+
+    const previousHostId = room.hostId;
+    if (!this.gameManager.skipTurn(roomCode)) return null;
+    return { room, captured: null, playerId: player.id, penalty: null, previousHostId };
+  }
+}
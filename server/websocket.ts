@@ -1,50 +1,149 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { Server as HTTPServer } from 'http';
-import { GameManager } from './game-manager';
-import { WSMessage, WSResponse } from '@shared/schema';
+import { Server as HTTPServer, IncomingMessage } from 'http';
+import { gameManager, ClosedRoom, TimeoutResult } from './game-manager';
+import { SessionManager } from './session-manager';
+import { storage } from './storage';
+import { BotController } from './bot-controller';
+import { TurnTimer } from './turn-timer';
+import { GameClock } from './game-clock';
+import { Heartbeat } from './heartbeat';
+import { RateLimiter } from './rate-limiter';
+import { chatManager } from './chat';
+import { WSMessage, WSResponse, GameRoom, GamePiece, ErrorCode, RoomClosedReason, HostChangeReason, Capability, CAPABILITIES, PROTOCOL_VERSION, MIN_PROTOCOL_VERSION, wsMessageSchema } from '@shared/schema';
+import { GameError } from '@shared/errors';
+import { diffRooms } from '@shared/room-delta';
+import { fromZodError } from 'zod-validation-error';
 import { randomUUID } from 'crypto';
 import { log } from './index';
 
-const gameManager = new GameManager();
+const sessionManager = new SessionManager(storage);
+const botController = new BotController(gameManager, handleBotMove);
+const turnTimer = new TurnTimer(gameManager, handleTimeout);
+const gameClock = new GameClock(gameManager, handleTimeUp);
+const heartbeat = new Heartbeat(broadcastLatencies);
+const rateLimiter = new RateLimiter(code => gameManager.getRoomByCode(code) !== null);
 const clients = new Map<string, WebSocket>();
+// The room as last broadcast, which the next room_delta is diffed against
+const lastBroadcast = new Map<string, GameRoom>();
+// Capabilities agreed with each socket; sockets that skipped 'hello' get them all
+const socketCapabilities = new WeakMap<WebSocket, Capability[]>();
 
-export function setupWebSocket(server: HTTPServer) {
-  const wss = new WebSocketServer({ server, path: '/ws' });
+// Larger frames are refused and the connection closed
+const MAX_PAYLOAD_BYTES = Number(process.env.WS_MAX_PAYLOAD_BYTES) || 16 * 1024;
+// How many proxies in front of the server to trust. Behind one, the socket
+// address is the proxy's own and the client's is the last X-Forwarded-For
+// entry it added; anything further left came from the client and can be faked.
+const TRUSTED_PROXIES = Number(process.env.WS_TRUSTED_PROXIES) || 0;
 
-  wss.on('connection', (ws: WebSocket) => {
-    const clientId = randomUUID();
+// Response types a client only understands if it agreed to the capability
+const RESPONSE_CAPABILITIES: Partial<Record<WSResponse['type'], Capability>> = {
+  chat: 'chat',
+  emote: 'emotes',
+};
+
+export async function setupWebSocket(server: HTTPServer) {
+  await restoreRooms();
+
+  const wss = new WebSocketServer({ server, path: '/ws', maxPayload: MAX_PAYLOAD_BYTES });
+  heartbeat.start();
+  gameManager.startSweeper(closeRoom);
+  wss.on('close', () => {
+    heartbeat.stop();
+    gameManager.stopSweeper();
+  });
+
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+    const ip = clientIp(req);
+    try {
+      rateLimiter.checkBan(ip);
+    } catch (error) {
+      refuse(ws, error);
+      return;
+    }
+
+    // Reassigned when the socket resumes an existing session
+    let clientId: string = randomUUID();
     clients.set(clientId, ws);
+    heartbeat.track(ws);
     
     log(`Client connected: ${clientId}`, 'websocket');
 
     ws.on('message', async (data: Buffer) => {
+      // So a refusal below still answers the request that caused it
+      let requestId: string | undefined;
       try {
-        const message: WSMessage = JSON.parse(data.toString());
-        log(`Message from ${clientId}: ${message.type}`, 'websocket');
+        const message = parseMessage(data);
+        requestId = message.success ? message.data.id : message.requestId;
+        rateLimiter.check(ip, clientId, message.success ? message.data.type : '*');
+        if (!message.success) {
+          log(`Rejected message from ${clientId}: ${message.error}`, 'websocket');
+          sendError(ws, message.error, 'INVALID_MESSAGE', message.requestId);
+          return;
+        }
+
+        // Echo the client's clock back so it can measure the round trip;
+        // answered before logging since every client sends one every few seconds
+        if (message.data.type === 'ping') {
+          send(ws, { type: 'pong', payload: { sentAt: message.data.payload.sentAt } });
+          return;
+        }
+
+        log(`Message from ${clientId}: ${message.data.type}`, 'websocket');
         
-        await handleMessage(clientId, message, ws);
+        if (message.data.type === 'hello') {
+          handleHello(ws, message.data.payload);
+          return;
+        }
+
+        // Nothing else until a protocol version has been agreed
+        if (!socketCapabilities.has(ws)) {
+          sendReload(ws);
+          return;
+        }
+
+        if (message.data.type === 'resume') {
+          clientId = resumeSession(clientId, message.data.payload.sessionToken, ws);
+          return;
+        }
+
+        await handleMessage(clientId, ip, message.data, ws);
       } catch (error) {
+        if (error instanceof GameError) {
+          // Only rate limiting throws out here
+          if (error.code === 'BANNED') {
+            refuse(ws, error);
+          } else {
+            sendError(ws, error.message, error.code, requestId);
+          }
+          return;
+        }
         log(`Error handling message: ${error}`, 'websocket');
-        sendError(ws, 'Invalid message format');
+        sendError(ws, 'Something went wrong', 'INTERNAL_ERROR', requestId);
       }
     });
 
     ws.on('close', () => {
       log(`Client disconnected: ${clientId}`, 'websocket');
-      
-      // Handle player leaving
-      const roomCode = gameManager.leaveRoom(clientId);
-      if (roomCode) {
-        const room = gameManager.getRoomByCode(roomCode);
-        if (room) {
-          broadcastToRoom(roomCode, {
-            type: 'room_updated',
-            payload: { room }
-          });
-        }
-      }
-      
+
+      // A newer socket has already taken over this player
+      if (clients.get(clientId) !== ws) return;
       clients.delete(clientId);
+
+      // Spectators have no seat to hold, only the session to come back to
+      if (gameManager.isSpectator(clientId)) {
+        removeSpectator(clientId);
+        sessionManager.startGrace(clientId, () => log(`Session expired: ${clientId}`, 'websocket'));
+        return;
+      }
+
+      // Hold the seat for the grace period so the player can resume
+      const previousHostId = gameManager.getRoom(clientId)?.hostId;
+      const room = gameManager.setPlayerConnected(clientId, false);
+      if (room) {
+        broadcastRoom(room);
+        announceHostChange(room, previousHostId, 'disconnected');
+        holdSeat(clientId);
+      }
     });
 
     ws.on('error', (error) => {
@@ -55,14 +154,78 @@ export function setupWebSocket(server: HTTPServer) {
   log('WebSocket server initialized', 'websocket');
 }
 
-async function handleMessage(clientId: string, message: WSMessage, ws: WebSocket) {
+// Agree a protocol version and feature set with a newly connected client
+function handleHello(ws: WebSocket, hello: { version: number; capabilities: string[] }) {
+  if (hello.version < MIN_PROTOCOL_VERSION) {
+    sendReload(ws);
+    return;
+  }
+
+  // A newer client falls back to our version; it knows every older one
+  const capabilities = CAPABILITIES.filter(c => hello.capabilities.includes(c));
+  socketCapabilities.set(ws, capabilities);
+  send(ws, {
+    type: 'hello',
+    payload: { status: 'accepted', version: Math.min(hello.version, PROTOCOL_VERSION), capabilities }
+  });
+}
+
+function sendReload(ws: WebSocket) {
+  send(ws, {
+    type: 'hello',
+    payload: { status: 'reload', version: PROTOCOL_VERSION, message: 'A new version of the game is available' }
+  });
+}
+
+// Walk back from the socket address one hop per trusted proxy
+function clientIp(req: IncomingMessage): string {
+  const remote = req.socket.remoteAddress || 'unknown';
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUSTED_PROXIES === 0 || typeof forwarded !== 'string') return remote;
+
+  const hops = [...forwarded.split(',').map(hop => hop.trim()).filter(Boolean), remote];
+  return hops[Math.max(hops.length - 1 - TRUSTED_PROXIES, 0)];
+}
+
+// Tell a banned client why, then hang up
+function refuse(ws: WebSocket, error: unknown) {
+  const message = error instanceof GameError ? error.message : 'Connection refused';
+  sendError(ws, message, 'BANNED');
+  ws.close(1008, 'Banned');
+}
+
+// Check an inbound frame against the shared WSMessage schema
+function parseMessage(data: Buffer): { success: true; data: WSMessage } | { success: false; error: string; requestId?: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data.toString());
+  } catch {
+    return { success: false, error: 'Invalid message format' };
+  }
+
+  const result = wsMessageSchema.safeParse(raw);
+  if (!result.success) {
+    // Still echo the id if the rest of the message was malformed
+    const id = (raw as { id?: unknown } | null)?.id;
+    return {
+      success: false,
+      error: fromZodError(result.error, { prefix: 'Invalid message' }).message,
+      requestId: typeof id === 'string' ? id : undefined,
+    };
+  }
+  return { success: true, data: result.data };
+}
+
+async function handleMessage(clientId: string, ip: string, message: WSMessage, ws: WebSocket) {
   try {
     switch (message.type) {
       case 'create': {
+        rateLimiter.checkRoomLimit(ip);
         const room = gameManager.createRoom(clientId, message.payload.playerName, message.payload.gameMode);
+        rateLimiter.trackRoom(ip, room.code);
         const response: WSResponse = {
           type: 'room_created',
-          payload: { room, playerId: clientId }
+          payload: { room, playerId: clientId, sessionToken: sessionManager.issue(clientId) }
         };
         send(ws, response);
         break;
@@ -76,31 +239,40 @@ async function handleMessage(clientId: string, message: WSMessage, ws: WebSocket
         );
         
         if (!room) {
-          sendError(ws, 'Room not found');
+          sendError(ws, 'Room not found', 'ROOM_NOT_FOUND', message.id);
           return;
         }
 
         const response: WSResponse = {
           type: 'room_joined',
-          payload: { room, playerId: clientId }
+          payload: { room, playerId: clientId, sessionToken: sessionManager.issue(clientId) }
         };
         send(ws, response);
         
         // Notify other players
-        broadcastToRoom(room.code, {
-          type: 'room_updated',
-          payload: { room }
-        }, clientId);
+        broadcastRoom(room, clientId);
+        break;
+      }
+
+      case 'spectate': {
+        const room = gameManager.spectate(message.payload.roomCode, clientId);
+        if (!room) {
+          sendError(ws, 'Room not found', 'ROOM_NOT_FOUND', message.id);
+          return;
+        }
+
+        send(ws, {
+          type: 'spectating',
+          payload: { room, spectatorId: clientId, sessionToken: sessionManager.issueSpectator(clientId, room.code) }
+        });
+        broadcastRoom(room, clientId);
         break;
       }
 
       case 'choose_color': {
         const room = gameManager.chooseColor(clientId, message.payload.color);
         if (room) {
-          broadcastToRoom(room.code, {
-            type: 'room_updated',
-            payload: { room }
-          });
+          broadcastRoom(room);
         }
         break;
       }
@@ -108,14 +280,130 @@ async function handleMessage(clientId: string, message: WSMessage, ws: WebSocket
       case 'ready': {
         const room = gameManager.setReady(clientId);
         if (room) {
-          broadcastToRoom(room.code, {
-            type: 'room_updated',
-            payload: { room }
-          });
+          broadcastRoom(room);
+        }
+        break;
+      }
+
+      case 'set_rules': {
+        const room = gameManager.setRules(clientId, message.payload.rules);
+        if (room) {
+          broadcastRoom(room);
+        }
+        break;
+      }
+
+      case 'set_dice_mode': {
+        const room = gameManager.setDiceMode(clientId, message.payload.diceMode);
+        if (room) {
+          broadcastRoom(room);
+        }
+        break;
+      }
+
+      case 'set_turn_timer': {
+        const room = gameManager.setTurnTimer(clientId, message.payload.turnTimer);
+        if (room) {
+          broadcastRoom(room);
+        }
+        break;
+      }
+
+      case 'set_client_seed': {
+        const room = gameManager.setClientSeed(clientId, message.payload.clientSeed);
+        if (room) {
+          broadcastRoom(room);
+        }
+        break;
+      }
+
+      case 'add_bot': {
+        const room = gameManager.addBot(clientId, message.payload.strategy);
+        if (room) {
+          broadcastRoom(room);
         }
         break;
       }
 
+      case 'remove_bot': {
+        const room = gameManager.removeBot(clientId, message.payload.botId);
+        if (room) {
+          broadcastRoom(room);
+        }
+        break;
+      }
+
+      case 'kick_player': {
+        const { playerId } = message.payload;
+        const room = gameManager.kickPlayer(clientId, playerId);
+        if (room) {
+          const client = clients.get(playerId);
+          if (client) {
+            send(client, {
+              type: 'removed',
+              payload: { message: 'The host removed you from the room' }
+            });
+          }
+          sessionManager.revoke(playerId);
+          chatManager.forget(playerId);
+          broadcastRoom(room);
+        }
+        break;
+      }
+
+      case 'transfer_host': {
+        const room = gameManager.transferHost(clientId, message.payload.playerId);
+        if (room) {
+          broadcastRoom(room);
+          announceHostChange(room, clientId, 'transferred');
+        }
+        break;
+      }
+
+      case 'lock_room': {
+        const room = gameManager.lockRoom(clientId, message.payload.locked);
+        if (room) {
+          broadcastRoom(room);
+        }
+        break;
+      }
+
+      case 'chat': {
+        // Spectators can chat too, they just have no name or colour
+        const room = gameManager.getRoom(clientId) || gameManager.getSpectatedRoom(clientId);
+        if (!room) {
+          sendError(ws, 'Not in a room', 'NOT_IN_ROOM', message.id);
+          return;
+        }
+
+        const player = room.players.find(p => p.id === clientId);
+        const chatMessage = chatManager.createMessage(
+          { id: clientId, name: player?.name || 'Spectator', color: player?.color || null },
+          message.payload.text
+        );
+        broadcastToRoom(room.code, {
+          type: 'chat',
+          payload: { message: chatMessage }
+        });
+        break;
+      }
+
+      case 'emote': {
+        const room = gameManager.getRoom(clientId);
+        const player = room?.players.find(p => p.id === clientId);
+        if (!room || !player?.color) {
+          sendError(ws, 'Only seated players can send emotes', 'NOT_SEATED', message.id);
+          return;
+        }
+
+        chatManager.checkEmote(clientId, message.payload.emote);
+        broadcastToRoom(room.code, {
+          type: 'emote',
+          payload: { playerId: clientId, color: player.color, emote: message.payload.emote }
+        });
+        break;
+      }
+
       case 'start_game': {
         const room = gameManager.startGame(clientId);
         if (room) {
@@ -123,6 +411,10 @@ async function handleMessage(clientId: string, message: WSMessage, ws: WebSocket
             type: 'game_started',
             payload: { room }
           });
+          // Everyone now has this version, so later deltas build on it
+          lastBroadcast.set(room.code, structuredClone(room));
+          scheduleTurn(room);
+          gameClock.schedule(room);
         }
         break;
       }
@@ -130,10 +422,8 @@ async function handleMessage(clientId: string, message: WSMessage, ws: WebSocket
       case 'roll_dice': {
         const result = gameManager.rollDice(clientId);
         if (result) {
-          broadcastToRoom(result.room.code, {
-            type: 'room_updated',
-            payload: { room: result.room }
-          });
+          broadcastMoveResult(result.room, null);
+          scheduleTurn(result.room);
         }
         break;
       }
@@ -141,66 +431,291 @@ async function handleMessage(clientId: string, message: WSMessage, ws: WebSocket
       case 'move_piece': {
         const result = gameManager.movePiece(clientId, message.payload.pieceId);
         if (result) {
-          // Broadcast room update
-          broadcastToRoom(result.room.code, {
-            type: 'room_updated',
-            payload: { room: result.room }
-          });
-          
-          // If a piece was captured, broadcast a capture event
-          if (result.captured) {
-            broadcastToRoom(result.room.code, {
-              type: 'piece_captured',
-              payload: { 
-                capturedPiece: result.captured,
-                room: result.room
-              }
-            });
-          }
+          broadcastMoveResult(result.room, result.captured);
+          scheduleTurn(result.room);
+        }
+        break;
+      }
+
+      case 'sync': {
+        // Sent by clients that think their copy of the room is stale
+        const room = gameManager.getRoom(clientId) || gameManager.getSpectatedRoom(clientId);
+        if (!room) {
+          sendError(ws, 'Not in a room', 'NOT_IN_ROOM', message.id);
+          return;
         }
+        send(ws, {
+          type: 'room_updated',
+          payload: { room }
+        });
         break;
       }
 
       case 'leave': {
-        const roomCode = gameManager.leaveRoom(clientId);
-        if (roomCode) {
-          const room = gameManager.getRoomByCode(roomCode);
-          if (room) {
-            broadcastToRoom(roomCode, {
-              type: 'room_updated',
-              payload: { room }
-            });
-          }
+        sessionManager.revoke(clientId);
+        if (gameManager.isSpectator(clientId)) {
+          removeSpectator(clientId);
+          break;
         }
+        removePlayer(clientId);
         break;
       }
     }
+    gameManager.recordActivity(clientId);
   } catch (error: any) {
     log(`Error in message handler: ${error.message}`, 'websocket');
-    sendError(ws, error.message);
+    if (error instanceof GameError) {
+      sendError(ws, error.message, error.code, message.id);
+    } else {
+      // Unexpected failures are logged above; don't leak their details
+      sendError(ws, 'Something went wrong', 'INTERNAL_ERROR', message.id);
+    }
+  }
+}
+
+// Bring stored rooms back after a restart. Every human starts disconnected
+// with the usual grace period to resume; bots pick up where they left off.
+async function restoreRooms() {
+  const rooms = await gameManager.restoreRooms();
+  await sessionManager.restore();
+
+  rooms.forEach(room => {
+    room.players.filter(p => !p.bot).forEach(p => holdSeat(p.id));
+    scheduleTurn(room);
+    gameClock.schedule(room);
+  });
+
+  log(`Restored ${rooms.length} rooms`, 'websocket');
+}
+
+function holdSeat(playerId: string) {
+  sessionManager.startGrace(playerId, () => {
+    log(`Session expired: ${playerId}`, 'websocket');
+    removePlayer(playerId);
+  });
+}
+
+// Attach a new socket to the player behind a session token. Returns the id the
+// connection should use from now on.
+function resumeSession(clientId: string, sessionToken: string, ws: WebSocket): string {
+  const playerId = sessionManager.resume(sessionToken);
+  let room: GameRoom | null = null;
+  if (playerId) {
+    // Spectators left their room on disconnect, so they start watching it again
+    const spectatedCode = sessionManager.getSpectatedRoomCode(playerId);
+    room = spectatedCode
+      ? gameManager.spectate(spectatedCode, playerId)
+      : gameManager.setPlayerConnected(playerId, true);
+  }
+
+  if (!playerId || !room) {
+    // Without a room to go back to the token is no use
+    if (playerId) sessionManager.revoke(playerId);
+    send(ws, {
+      type: 'resume_failed',
+      payload: { message: 'Session expired' }
+    });
+    return clientId;
+  }
+
+  // Replace any stale socket still registered for this player
+  const previous = clients.get(playerId);
+  clients.delete(clientId);
+  clients.set(playerId, ws);
+  if (previous && previous !== ws) {
+    previous.close();
+  }
+
+  log(`Client ${clientId} resumed session of ${playerId}`, 'websocket');
+
+  send(ws, {
+    type: 'session_resumed',
+    payload: { room, playerId, sessionToken }
+  });
+  broadcastRoom(room, playerId);
+
+  return playerId;
+}
+
+// Whoever is up next: let a bot play or start the human's turn timer
+function scheduleTurn(room: GameRoom) {
+  botController.schedule(room);
+  turnTimer.schedule(room);
+}
+
+function handleBotMove(room: GameRoom, captured: GamePiece | null) {
+  broadcastMoveResult(room, captured);
+  turnTimer.schedule(room);
+}
+
+function handleTimeout({ room, captured, playerId, penalty, previousHostId }: TimeoutResult) {
+  log(`Turn timed out: ${playerId}${penalty ? ` (${penalty})` : ''}`, 'websocket');
+  broadcastMoveResult(room, captured);
+
+  if (penalty) {
+    const client = clients.get(playerId);
+    if (client) {
+      send(client, {
+        type: 'removed',
+        payload: {
+          message: penalty === 'bot'
+            ? 'A bot took over your seat after too many missed turns'
+            : 'You were removed after too many missed turns'
+        }
+      });
+    }
+    sessionManager.revoke(playerId);
+    if (penalty === 'remove') {
+      removePlayer(playerId);
+      return;
+    }
+    announceHostChange(room, previousHostId, 'left');
+  }
+
+  botController.schedule(room);
+}
+
+// A quick game ran out of time and was placed on points
+function handleTimeUp(room: GameRoom) {
+  log(`Quick game ${room.code} ended on time`, 'websocket');
+  broadcastRoom(room);
+  turnTimer.schedule(room);
+}
+
+function broadcastMoveResult(room: GameRoom, captured: GamePiece | null) {
+  broadcastRoom(room);
+
+  // If a piece was captured, broadcast a capture event
+  if (captured) {
+    broadcastToRoom(room.code, {
+      type: 'piece_captured',
+      payload: { capturedPiece: captured }
+    });
+  }
+}
+
+// Tell each room how responsive its players' connections are
+function broadcastLatencies() {
+  const latenciesByRoom = new Map<string, Record<string, number>>();
+  clients.forEach((ws, id) => {
+    const latency = heartbeat.getLatency(ws);
+    const room = gameManager.getRoom(id);
+    if (latency === null || !room) return;
+
+    const latencies = latenciesByRoom.get(room.code) || {};
+    latencies[id] = latency;
+    latenciesByRoom.set(room.code, latencies);
+  });
+
+  latenciesByRoom.forEach((players, roomCode) => {
+    broadcastToRoom(roomCode, {
+      type: 'latency',
+      payload: { players }
+    });
+  });
+}
+
+function removePlayer(playerId: string) {
+  chatManager.forget(playerId);
+  const previousHostId = gameManager.getRoom(playerId)?.hostId;
+  const left = gameManager.leaveRoom(playerId);
+  if (!left) return;
+
+  // Only bots were left, so the room is gone
+  if (left.closed) {
+    closeRoom(left.closed);
+    return;
+  }
+
+  const room = gameManager.getRoomByCode(left.roomCode);
+  if (room) {
+    broadcastRoom(room);
+    announceHostChange(room, previousHostId, 'left');
+    scheduleTurn(room);
+  }
+}
+
+const ROOM_CLOSED_MESSAGES: Record<RoomClosedReason, string> = {
+  idle: 'The room was closed after a long time without activity',
+  finished: 'The game is over and the room has been closed',
+  abandoned: 'The room was closed because no players were left',
+};
+
+// GameManager has already dropped the room, so tell its occupants directly
+// and clear everything else kept for it
+function closeRoom({ room, spectators, reason }: ClosedRoom) {
+  log(`Closed room ${room.code} (${reason})`, 'websocket');
+  turnTimer.cancel(room.code);
+  gameClock.cancel(room.code);
+  lastBroadcast.delete(room.code);
+
+  const message: WSResponse = {
+    type: 'room_closed',
+    payload: { code: room.code, reason, message: ROOM_CLOSED_MESSAGES[reason] }
+  };
+  [...room.players.map(p => p.id), ...spectators].forEach(id => {
+    const client = clients.get(id);
+    if (client) send(client, message);
+    sessionManager.revoke(id);
+    chatManager.forget(id);
+  });
+}
+
+// Sent after the room update that carries the new hostId
+function announceHostChange(room: GameRoom, previousHostId: string | null | undefined, reason: HostChangeReason) {
+  if (!room.hostId || room.hostId === previousHostId) return;
+  broadcastToRoom(room.code, {
+    type: 'host_changed',
+    payload: { hostId: room.hostId, reason }
+  });
+}
+
+function removeSpectator(spectatorId: string) {
+  chatManager.forget(spectatorId);
+  const room = gameManager.stopSpectating(spectatorId);
+  if (room) {
+    broadcastRoom(room);
   }
 }
 
 function send(ws: WebSocket, message: WSResponse) {
+  const capability = RESPONSE_CAPABILITIES[message.type];
+  if (capability && !(socketCapabilities.get(ws) || CAPABILITIES).includes(capability)) return;
+
   if (ws.readyState === WebSocket.OPEN) {
-    ws.send(JSON.stringify(message));
+    ws.send(JSON.stringify({ ...message, v: PROTOCOL_VERSION }));
   }
 }
 
-function sendError(ws: WebSocket, message: string) {
+function sendError(ws: WebSocket, message: string, code: ErrorCode, requestId?: string) {
   send(ws, {
     type: 'error',
-    payload: { message }
+    payload: { message, code, requestId }
   });
 }
 
+// Send everyone in the room what changed since the last broadcast, or the
+// whole room if it hasn't been broadcast before
+function broadcastRoom(room: GameRoom, excludeClientId?: string) {
+  const previous = lastBroadcast.get(room.code);
+  if (previous?.version === room.version) return;
+  lastBroadcast.set(room.code, structuredClone(room));
+
+  broadcastToRoom(room.code, previous
+    ? { type: 'room_delta', payload: diffRooms(previous, room) }
+    : { type: 'room_updated', payload: { room } },
+  excludeClientId);
+}
+
 function broadcastToRoom(roomCode: string, message: WSResponse, excludeClientId?: string) {
   const room = gameManager.getRoomByCode(roomCode);
   if (!room) return;
 
-  room.players.forEach(player => {
-    if (player.id !== excludeClientId) {
-      const client = clients.get(player.id);
+  // Spectators get every update the players do, and nobody gets it twice
+  const recipients = new Set([...room.players.map(p => p.id), ...gameManager.getSpectators(roomCode)]);
+  recipients.forEach(id => {
+    if (id !== excludeClientId) {
+      const client = clients.get(id);
       if (client) {
         send(client, message);
       }
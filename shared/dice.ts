@@ -0,0 +1,48 @@
+import type { GameState, PlayerColor } from './schema';
+import { BASE_POSITION } from './ludo-engine';
+
+// The "Lucky" weighted dice, shared by the server and the offline game. Sixes
+// come up more often, and on the first roll of a turn the previous player's
+// last roll is made unlikely so turns don't feel repetitive.
+
+// Chance of each face (1-6) in percent for the colour about to roll
+export function getWeightedDiceOdds(state: GameState, color: PlayerColor): number[] {
+  const allPiecesInBase = state.pieces
+    .filter(p => p.color === color)
+    .every(p => p.position === BASE_POSITION);
+  const lastRoll = state.lastDiceValue;
+
+  // Base probabilities - boost 6 to 25% (was 16.67%)
+  const weights = [15, 15, 15, 15, 15, 25];
+
+  if (allPiecesInBase) {
+    // Getting out of base matters more than avoiding the previous number: 50% chance for 6
+    weights.splice(0, 6, 10, 10, 10, 10, 10, 50);
+  } else if (lastRoll !== null && state.isFirstRollOfTurn) {
+    // Cut the previous player's last roll to 2% and share the rest out, with extra going to 6
+    const lastRollIndex = lastRoll - 1;
+    const weightToRedistribute = weights[lastRollIndex] - 2;
+    weights[lastRollIndex] = 2;
+
+    const baseExtraPerNumber = weightToRedistribute / 5;
+    weights.forEach((_, i) => {
+      if (i === lastRollIndex) return;
+      weights[i] += baseExtraPerNumber * (i === 5 ? 1.5 : 0.875);
+    });
+  }
+
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map(w => (w / totalWeight) * 100);
+}
+
+// Roll the weighted dice for the colour about to roll
+export function rollWeightedDice(state: GameState, color: PlayerColor, random: () => number = Math.random): number {
+  const odds = getWeightedDiceOdds(state, color);
+  let remaining = random() * 100;
+
+  for (let i = 0; i < odds.length; i++) {
+    remaining -= odds[i];
+    if (remaining <= 0) return i + 1;
+  }
+  return 1;
+}
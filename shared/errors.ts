@@ -0,0 +1,10 @@
+import type { ErrorCode } from './schema';
+
+// An expected failure of a player's request, such as moving out of turn.
+// The code is sent to the client alongside the message.
+export class GameError extends Error {
+  constructor(public code: ErrorCode, message: string) {
+    super(message);
+    this.name = 'GameError';
+  }
+}
@@ -0,0 +1,75 @@
+import type { GameMode, PlayerColor } from './schema';
+
+// What each game mode seats and who plays together. Server and client both
+// read this instead of comparing mode names.
+export interface GameModeConfig {
+  label: string;
+  shortLabel: string; // Badge on the board
+  colors: PlayerColor[]; // Colours that can be chosen, in board order
+  minPlayers: number;
+  maxPlayers: number;
+  teams: PlayerColor[][] | null; // Partner colours for team play
+  controlsTeam: boolean; // One player plays both colours of their team
+}
+
+// Clockwise round the board, the way pieces travel. Seats take their turns
+// in this order whichever colours are taken.
+export const BOARD_ORDER: PlayerColor[] = ['red', 'green', 'yellow', 'blue'];
+
+export const GAME_MODES: Record<GameMode, GameModeConfig> = {
+  '2-player': {
+    label: '2 Players',
+    shortLabel: '2P',
+    colors: ['red', 'yellow'], // Opposite corners
+    minPlayers: 2,
+    maxPlayers: 2,
+    teams: null,
+    controlsTeam: false,
+  },
+  '2-player-dual': {
+    label: '2 Players, 4 Colors',
+    shortLabel: '2×2',
+    colors: BOARD_ORDER,
+    minPlayers: 2,
+    maxPlayers: 2,
+    // Each player takes a pair of opposite corners, as in classic two-player Ludo
+    teams: [['red', 'yellow'], ['green', 'blue']],
+    controlsTeam: true,
+  },
+  '3-player': {
+    label: '3 Players',
+    shortLabel: '3P',
+    colors: BOARD_ORDER, // Any three; the fourth base sits empty
+    minPlayers: 3,
+    maxPlayers: 3,
+    teams: null,
+    controlsTeam: false,
+  },
+  '4-player': {
+    label: '4 Players',
+    shortLabel: '4P',
+    colors: BOARD_ORDER,
+    minPlayers: 4,
+    maxPlayers: 4,
+    teams: null,
+    controlsTeam: false,
+  },
+  '2v2': {
+    label: '2v2 Teams',
+    shortLabel: '2v2',
+    colors: BOARD_ORDER,
+    minPlayers: 4,
+    maxPlayers: 4,
+    // Partners sit opposite each other
+    teams: [['red', 'yellow'], ['green', 'blue']],
+    controlsTeam: false,
+  },
+};
+
+export const GAME_MODE_LIST = Object.keys(GAME_MODES) as GameMode[];
+
+// Colours a player gets for picking `color`
+export function colorsForSeat(mode: GameMode, color: PlayerColor): PlayerColor[] {
+  const { teams, controlsTeam } = GAME_MODES[mode];
+  return (controlsTeam && teams?.find(team => team.includes(color))) || [color];
+}
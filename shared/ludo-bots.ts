@@ -0,0 +1,162 @@
+import type { BotStrategy, GamePiece, GameState, PlayerColor } from './schema';
+import {
+  BASE_POSITION,
+  EngineContext,
+  FINISHED_POSITION,
+  TRACK_LENGTH,
+  applyAction,
+  getAbsoluteTrackPosition,
+  getMovingColor,
+  hasFinished,
+  getMovablePieces,
+  isOnMainTrack,
+  sideOf,
+} from './ludo-engine';
+
+// Computer opponents. Each strategy picks one of the pieces the engine says can
+// move for the current roll; the caller then plays it through the normal move path.
+
+export const BOT_STRATEGIES: BotStrategy[] = ['random', 'greedy', 'lookahead'];
+
+export const BOT_STRATEGY_LABELS: Record<BotStrategy, string> = {
+  random: 'Random',
+  greedy: 'Greedy',
+  lookahead: 'Lookahead',
+};
+
+// How far along its own route a piece is. Getting out of base is worth a
+// head start since it takes a 6 to do it.
+function progress(piece: GamePiece): number {
+  if (piece.position === BASE_POSITION) return 0;
+  if (piece.position === FINISHED_POSITION) return 70;
+  return piece.position + 10;
+}
+
+// Number of distinct rolls (1-6) with which some opponent could land on this piece
+function countThreats(state: GameState, ctx: EngineContext, piece: GamePiece): number {
+  if (!isOnMainTrack(piece) || piece.isSafe) return 0;
+
+  const target = getAbsoluteTrackPosition(piece);
+  const distances = new Set<number>();
+  state.pieces.forEach(other => {
+    if (sideOf(ctx, piece.color).includes(other.color) || !isOnMainTrack(other)) return;
+    const distance = (target - getAbsoluteTrackPosition(other) + TRACK_LENGTH) % TRACK_LENGTH;
+    // The opponent must still be on the main track after moving that far
+    if (distance >= 1 && distance <= 6 && other.position + distance <= 50) {
+      distances.add(distance);
+    }
+  });
+  return distances.size;
+}
+
+function chooseRandom(movable: GamePiece[], random: () => number): GamePiece {
+  return movable[Math.floor(random() * movable.length)];
+}
+
+// Score each move by its immediate effect: capture > finish > leave base > reach safety > advance
+function chooseGreedy(state: GameState, ctx: EngineContext, movable: GamePiece[]): GamePiece {
+  let best = movable[0];
+  let bestScore = -Infinity;
+
+  movable.forEach(piece => {
+    const { state: next, events } = applyAction(state, { type: 'move', pieceId: piece.id }, ctx);
+    const moved = next.pieces.find(p => p.id === piece.id)!;
+
+    let score = progress(moved) / 10;
+    if (events.some(e => e.type === 'captured')) score += 100;
+    if (events.some(e => e.type === 'finished')) score += 80;
+    if (piece.position === BASE_POSITION) score += 60;
+    if (countThreats(state, ctx, piece) > 0 && countThreats(next, ctx, moved) === 0) score += 30;
+    if (isOnMainTrack(moved) && moved.isSafe) score += 20;
+
+    if (score > bestScore) {
+      best = piece;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
+
+// Value of a whole position for one colour and its partner: their progress
+// minus the expected loss from pieces that opponents could hit on their next roll
+function evaluate(state: GameState, ctx: EngineContext, color: PlayerColor): number {
+  const side = sideOf(ctx, color);
+  let score = 0;
+  state.pieces.forEach(piece => {
+    if (side.includes(piece.color)) {
+      score += progress(piece);
+      score -= progress(piece) * (countThreats(state, ctx, piece) / 6);
+    } else {
+      score -= progress(piece) * 0.8;
+    }
+  });
+  return score;
+}
+
+// Value for `color` once the mover has played the rolled dice: the best move
+// if it is `color`'s side moving, otherwise the move that hurts them most
+function bestReply(state: GameState, ctx: EngineContext, color: PlayerColor): number {
+  if (!state.waitingForMove || !state.diceValue) return evaluate(state, ctx, color);
+
+  const mover = getMovingColor(state, ctx);
+  const values = getMovablePieces(state, mover, state.diceValue, ctx).map(piece =>
+    evaluate(applyAction(state, { type: 'move', pieceId: piece.id }, ctx).state, ctx, color)
+  );
+  return sideOf(ctx, color).includes(mover) ? Math.max(...values) : Math.min(...values);
+}
+
+// Expected value for `color` over the six possible next rolls, whoever takes them
+function expectNextRoll(state: GameState, ctx: EngineContext, color: PlayerColor): number {
+  if (state.winner) return evaluate(state, ctx, color);
+
+  let total = 0;
+  for (let roll = 1; roll <= 6; roll++) {
+    total += bestReply(applyAction(state, { type: 'roll', value: roll }, ctx).state, ctx, color);
+  }
+  return total / 6;
+}
+
+// Expectimax two plies deep: play each candidate move, then average over the
+// next roll with the player who gets it answering as well as they can
+function chooseLookahead(state: GameState, ctx: EngineContext, movable: GamePiece[]): GamePiece {
+  const color = getMovingColor(state, ctx);
+  let best = movable[0];
+  let bestScore = -Infinity;
+
+  movable.forEach(piece => {
+    const { state: next } = applyAction(state, { type: 'move', pieceId: piece.id }, ctx);
+    let score = expectNextRoll(next, ctx, color);
+    if (hasFinished(next, color) && !hasFinished(state, color)) score += 1000;
+
+    if (score > bestScore) {
+      best = piece;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
+
+// Pick the piece a bot should move with the rolled dice, or null if none can move
+export function chooseBotMove(
+  state: GameState,
+  ctx: EngineContext,
+  strategy: BotStrategy,
+  random: () => number = Math.random,
+): string | null {
+  if (!state.waitingForMove || !state.diceValue) return null;
+
+  const movable = getMovablePieces(state, getMovingColor(state, ctx), state.diceValue, ctx);
+  if (movable.length === 0) return null;
+  if (movable.length === 1) return movable[0].id;
+
+  switch (strategy) {
+    case 'random':
+      return chooseRandom(movable, random).id;
+    case 'greedy':
+      return chooseGreedy(state, ctx, movable).id;
+    case 'lookahead':
+      return chooseLookahead(state, ctx, movable).id;
+  }
+}
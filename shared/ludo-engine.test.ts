@@ -0,0 +1,293 @@
+import { describe, expect, it } from 'vitest';
+import type { GameState, PlayerColor, RoomRules } from './schema';
+import { GAME_MODES } from './game-modes';
+import {
+  BASE_POSITION,
+  DEFAULT_ROOM_RULES,
+  EngineContext,
+  EngineEvent,
+  FINISHED_POSITION,
+  applyAction,
+  createInitialState,
+  getCurrentColor,
+  getMovablePieces,
+  getMovingColor,
+  getPlaces,
+  getScore,
+  isPieceOnSafeSpot,
+} from './ludo-engine';
+
+function contextFor(turnOrder: PlayerColor[], rules: Partial<RoomRules> = {}, teams: PlayerColor[][] | null = null): EngineContext {
+  return { turnOrder, rules: { ...DEFAULT_ROOM_RULES, ...rules }, teams };
+}
+
+// A fresh game with some pieces moved, keyed by piece id
+function stateWith(ctx: EngineContext, positions: Record<string, number>, changes: Partial<GameState> = {}): GameState {
+  const state = createInitialState(ctx.turnOrder, ctx.rules);
+  state.pieces.forEach(piece => {
+    if (piece.id in positions) {
+      piece.position = positions[piece.id];
+      piece.isSafe = isPieceOnSafeSpot(piece, ctx.rules);
+    }
+  });
+  return { ...state, ...changes };
+}
+
+function allHome(color: PlayerColor): Record<string, number> {
+  return Object.fromEntries([0, 1, 2, 3].map(i => [`${color}-${i}`, FINISHED_POSITION]));
+}
+
+// Roll and, if a piece is given, move it; returns the events of both
+function play(state: GameState, ctx: EngineContext, roll: number, pieceId?: string): { state: GameState; events: EngineEvent[] } {
+  const rolled = applyAction(state, { type: 'roll', value: roll }, ctx);
+  if (!pieceId) return rolled;
+  const moved = applyAction(rolled.state, { type: 'move', pieceId }, ctx);
+  return { state: moved.state, events: [...rolled.events, ...moved.events] };
+}
+
+// Small seeded generator so random games play out the same every run
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Random rolls and moves until the game is won or maxActions run out
+function playOut(state: GameState, ctx: EngineContext, random: () => number, maxActions = 20000): GameState {
+  for (let i = 0; i < maxActions && !state.winner; i++) {
+    if (!state.waitingForMove) {
+      state = applyAction(state, { type: 'roll', value: 1 + Math.floor(random() * 6) }, ctx).state;
+      continue;
+    }
+    const movable = getMovablePieces(state, getMovingColor(state, ctx), state.diceValue!, ctx);
+    const piece = movable[Math.floor(random() * movable.length)];
+    state = applyAction(state, { type: 'move', pieceId: piece.id }, ctx).state;
+  }
+  return state;
+}
+
+describe('moves', () => {
+  const ctx = contextFor(['red', 'yellow']);
+
+  it('needs a 6 to leave base, and a 6 earns another roll', () => {
+    const state = createInitialState(ctx.turnOrder);
+
+    const { state: stuck, events } = play(state, ctx, 3);
+    expect(events).toContainEqual({ type: 'turn_passed', from: 'red', to: 'yellow' });
+    expect(stuck.waitingForMove).toBe(false);
+
+    const { state: out } = play(state, ctx, 6, 'red-0');
+    expect(out.pieces.find(p => p.id === 'red-0')!.position).toBe(0);
+    expect(getCurrentColor(out, ctx)).toBe('red');
+  });
+
+  it('sends a captured piece back to base', () => {
+    // Red 30 and yellow 4 are the same cell
+    const state = stateWith(ctx, { 'red-0': 27, 'yellow-0': 4 });
+
+    const { state: next, events } = play(state, ctx, 3, 'red-0');
+
+    expect(events).toContainEqual(expect.objectContaining({ type: 'captured', by: 'red-0' }));
+    expect(next.pieces.find(p => p.id === 'yellow-0')!.position).toBe(BASE_POSITION);
+    expect(next.capturesSuffered).toEqual({ yellow: 1 });
+  });
+
+  it('finishes a piece only on an exact roll', () => {
+    const state = stateWith(ctx, { 'red-0': 55 });
+
+    const { state: overshot } = play(state, ctx, 3);
+    expect(overshot.waitingForMove).toBe(false);
+
+    const { events } = play(state, ctx, 2, 'red-0');
+    expect(events).toContainEqual({ type: 'finished', pieceId: 'red-0', color: 'red' });
+  });
+
+  it('refuses to move before rolling or to move another colour', () => {
+    const state = stateWith(ctx, { 'red-0': 10, 'yellow-0': 10 });
+
+    expect(() => applyAction(state, { type: 'move', pieceId: 'red-0' }, ctx)).toThrow('Roll the dice first');
+    const { state: rolled } = play(state, ctx, 2);
+    expect(() => applyAction(rolled, { type: 'move', pieceId: 'yellow-0' }, ctx)).toThrow('Invalid piece');
+  });
+});
+
+describe('placing', () => {
+  const ctx = contextFor(GAME_MODES['4-player'].colors);
+
+  it('places a colour once its last piece is home and plays on', () => {
+    const state = stateWith(ctx, { ...allHome('red'), 'red-0': 56 });
+
+    const { state: next, events } = play(state, ctx, 1, 'red-0');
+
+    expect(events).toContainEqual({ type: 'placed', color: 'red', place: 1 });
+    expect(next.finishingOrder).toEqual(['red']);
+    expect(next.winner).toBeNull();
+    expect(getCurrentColor(next, ctx)).toBe('green');
+  });
+
+  it('skips colours that have already finished', () => {
+    const state = stateWith(ctx, allHome('red'), { finishingOrder: ['red'], currentTurnIndex: 3 });
+
+    const { state: next } = play(state, ctx, 1);
+
+    expect(getCurrentColor(next, ctx)).toBe('green');
+  });
+
+  it('ends on the first colour home without playToEnd, placing the rest by progress', () => {
+    const outrightCtx = contextFor(['red', 'green', 'yellow'], { playToEnd: false });
+    const state = stateWith(outrightCtx, { ...allHome('red'), 'red-0': 56, 'green-0': 30, 'yellow-0': 10 });
+
+    const { state: next, events } = play(state, outrightCtx, 1, 'red-0');
+
+    expect(next.winner).toBe('red');
+    expect(events).toContainEqual({ type: 'won', color: 'red' });
+    expect(getPlaces(next, outrightCtx)).toEqual([['red'], ['green'], ['yellow']]);
+  });
+});
+
+describe('team play', () => {
+  const ctx = contextFor(GAME_MODES['2v2'].colors, {}, GAME_MODES['2v2'].teams);
+
+  it('never captures a partner', () => {
+    // Red 30 and yellow 4 are the same cell
+    const state = stateWith(ctx, { 'red-0': 27, 'yellow-0': 4 });
+
+    const { state: next, events } = play(state, ctx, 3, 'red-0');
+
+    expect(events.some(e => e.type === 'captured')).toBe(false);
+    expect(next.pieces.find(p => p.id === 'yellow-0')!.position).toBe(4);
+  });
+
+  it('captures an opponent and keeps the turn', () => {
+    // Red 30 and green 17 are the same cell
+    const state = stateWith(ctx, { 'red-0': 27, 'green-0': 17 });
+
+    const { state: next, events } = play(state, ctx, 3, 'red-0');
+
+    expect(events).toContainEqual(expect.objectContaining({ type: 'captured', by: 'red-0' }));
+    expect(next.pieces.find(p => p.id === 'green-0')!.position).toBe(BASE_POSITION);
+    expect(getCurrentColor(next, ctx)).toBe('red');
+  });
+
+  it('moves the partner\'s pieces once all of a player\'s own are home', () => {
+    const state = stateWith(ctx, allHome('red'));
+    const { state: rolled } = play(state, ctx, 6);
+
+    expect(getMovingColor(rolled, ctx)).toBe('yellow');
+    expect(() => applyAction(rolled, { type: 'move', pieceId: 'red-0' }, ctx)).toThrow('Invalid piece');
+    const { state: next } = applyAction(rolled, { type: 'move', pieceId: 'yellow-0' }, ctx);
+    expect(next.pieces.find(p => p.id === 'yellow-0')!.position).toBe(0);
+  });
+
+  it('places partners together and ends once one team is left', () => {
+    const state = stateWith(ctx, { ...allHome('red'), ...allHome('yellow'), 'yellow-0': 56 }, { currentTurnIndex: 2 });
+
+    const { state: next, events } = play(state, ctx, 1, 'yellow-0');
+
+    expect(events).toContainEqual({ type: 'placed', color: 'red', place: 1 });
+    expect(events).toContainEqual({ type: 'placed', color: 'yellow', place: 1 });
+    expect(next.winner).toBe('red');
+    expect(getPlaces(next, ctx)).toEqual([['red', 'yellow'], ['green', 'blue']]);
+  });
+});
+
+describe('quick games', () => {
+  const ctx = contextFor(['red', 'yellow'], { quick: true, quickMinutes: 0, quickTurns: 0 });
+
+  it('starts every piece on the track', () => {
+    const state = createInitialState(ctx.turnOrder, ctx.rules);
+    expect(state.pieces.every(p => p.position === 0)).toBe(true);
+  });
+
+  it('scores distance, pieces home and pieces lost', () => {
+    const state = stateWith(ctx, { 'red-0': 10, 'red-1': FINISHED_POSITION }, { capturesSuffered: { red: 1 } });
+
+    // 10 + 57 for the finished piece, +20 for it being home, -10 for the capture
+    expect(getScore(state, 'red')).toBe(77);
+    expect(getScore(state, 'yellow')).toBe(0);
+  });
+
+  it('ends on points once the turn limit is reached', () => {
+    const limitedCtx = contextFor(['red', 'yellow'], { quick: true, quickMinutes: 0, quickTurns: 1 });
+    const state = createInitialState(limitedCtx.turnOrder, limitedCtx.rules);
+
+    const { state: next, events } = play(state, limitedCtx, 3, 'red-0');
+
+    expect(events).toContainEqual({ type: 'limit_reached', limit: 'turns' });
+    expect(next.winner).toBe('red');
+    expect(next.finishingOrder).toEqual(['red', 'yellow']);
+  });
+
+  it('ends on points when time is up and refuses further actions', () => {
+    const state = stateWith(ctx, { 'yellow-0': 5 });
+
+    const { state: next, events } = applyAction(state, { type: 'time_up' }, ctx);
+
+    expect(events).toContainEqual({ type: 'limit_reached', limit: 'time' });
+    expect(next.winner).toBe('yellow');
+    expect(() => applyAction(next, { type: 'roll', value: 3 }, ctx)).toThrow('Game is over');
+  });
+});
+
+describe('passing', () => {
+  const ctx = contextFor(['red', 'yellow']);
+
+  it('hands the turn on, dropping an unplayed roll', () => {
+    const state = stateWith(ctx, { 'red-0': 10 });
+    const { state: rolled } = play(state, ctx, 4);
+
+    const { state: next, events } = applyAction(rolled, { type: 'pass' }, ctx);
+
+    expect(events).toEqual([{ type: 'turn_passed', from: 'red', to: 'yellow' }]);
+    expect(next.waitingForMove).toBe(false);
+    expect(next.diceValue).toBeNull();
+    expect(next.lastDiceValue).toBe(4);
+  });
+
+  it('refuses once the game is over', () => {
+    const state = stateWith(ctx, {}, { winner: 'red' });
+    expect(() => applyAction(state, { type: 'pass' }, ctx)).toThrow('Game is over');
+  });
+});
+
+describe('capture to enter home', () => {
+  const ctx = contextFor(['red', 'yellow'], { captureToEnterHome: true });
+
+  it('sends pieces round again until their colour has captured', () => {
+    const state = stateWith(ctx, { 'red-0': 48 });
+
+    expect(play(state, ctx, 5, 'red-0').state.pieces[0].position).toBe(1);
+
+    const captured = { ...state, captureCounts: { red: 1 } };
+    expect(play(captured, ctx, 5, 'red-0').state.pieces[0].position).toBe(53);
+  });
+
+  it('never stops a lap on the cell before the start', () => {
+    const state = stateWith(ctx, { 'red-0': 50 });
+
+    expect(play(state, ctx, 1).state.waitingForMove).toBe(false);
+    expect(play(state, ctx, 2, 'red-0').state.pieces[0].position).toBe(0);
+  });
+
+  it('keeps going when every piece is at the end of the track and nobody has captured', () => {
+    const positions = Object.fromEntries(createInitialState(ctx.turnOrder).pieces.map(p => [p.id, 50]));
+    const state = stateWith(ctx, positions);
+
+    expect(getMovablePieces(state, 'red', 4, ctx)).toHaveLength(4);
+    expect(playOut(state, ctx, seededRandom(1)).winner).not.toBeNull();
+  });
+
+  it('finishes random games', () => {
+    const seatings: PlayerColor[][] = [['red', 'yellow'], ['red', 'green', 'yellow']];
+    seatings.forEach(colors => {
+      const randomCtx = contextFor(colors, { captureToEnterHome: true });
+      for (let seed = 1; seed <= 20; seed++) {
+        const state = playOut(createInitialState(randomCtx.turnOrder, randomCtx.rules), randomCtx, seededRandom(seed));
+        expect(state.winner).not.toBeNull();
+      }
+    });
+  });
+});
@@ -0,0 +1,494 @@
+import type { GamePiece, GameRoom, GameState, Player, PlayerColor, RoomRules } from './schema';
+import { GameError } from './errors';
+import { BOARD_ORDER, GAME_MODES } from './game-modes';
+
+// Pure Ludo rules engine shared by the server (GameManager) and the client.
+// Every function here is deterministic: it never reads the clock or Math.random
+// and never mutates its inputs. Dice values are supplied by the caller.
+
+// Piece positions are relative to the owning player's start cell:
+// -1 = base, 0-50 = main track, 51-56 = home path, 57 = home (stored as 99)
+export const BASE_POSITION = -1;
+export const LAST_TRACK_POSITION = 50;
+export const HOME_POSITION = 57;
+export const FINISHED_POSITION = 99;
+export const TRACK_LENGTH = 52;
+
+// Start positions: Red=0, Green=13, Yellow=26, Blue=39
+export const START_SPOT_POSITIONS = [0, 13, 26, 39];
+
+// Safe spots on the main track (ABSOLUTE positions where pieces cannot be captured)
+// Start positions plus star positions: 8, 21, 34, 47
+export const SAFE_SPOT_POSITIONS = [0, 8, 13, 21, 26, 34, 39, 47];
+
+// Player start offsets on the 52-cell track
+export const PLAYER_START_OFFSETS: Record<PlayerColor, number> = {
+  red: 0,
+  green: 13,
+  yellow: 26,
+  blue: 39
+};
+
+export const DEFAULT_ROOM_RULES: RoomRules = {
+  leaveBaseRolls: [6],
+  exactRollToFinish: true,
+  extraTurnOnSix: true,
+  extraTurnOnCapture: true,
+  extraTurnOnHome: false,
+  threeSixesForfeit: false,
+  captureToEnterHome: false,
+  blocksCannotBePassed: false,
+  captureAllOnLanding: false,
+  safeSpots: 'standard',
+  playToEnd: true,
+  quick: false,
+  quickMinutes: 10,
+  quickTurns: 0,
+};
+
+// Quick Ludo scores: distance covered, plus a bonus for each piece home and a
+// penalty for each piece lost to a capture
+export const QUICK_HOME_BONUS = 20;
+export const QUICK_CAPTURE_PENALTY = 10;
+
+export interface EngineContext {
+  // Colour seated at each turn index; gameState.currentTurnIndex indexes into this
+  turnOrder: PlayerColor[];
+  rules: RoomRules;
+  teams?: PlayerColor[][] | null; // Partner colours in team play
+}
+
+export type EngineAction =
+  | { type: 'roll'; value: number }
+  | { type: 'move'; pieceId: string }
+  | { type: 'time_up' } // A quick game's time limit has passed
+  | { type: 'pass' }; // Give up the rest of the turn, e.g. when it can't be played
+
+export type EngineEvent =
+  | { type: 'rolled'; color: PlayerColor; value: number }
+  | { type: 'moved'; pieceId: string; color: PlayerColor; from: number; to: number }
+  | { type: 'captured'; piece: GamePiece; by: string }
+  | { type: 'finished'; pieceId: string; color: PlayerColor }
+  | { type: 'placed'; color: PlayerColor; place: number } // 1 for first
+  | { type: 'forfeited'; color: PlayerColor }
+  | { type: 'limit_reached'; limit: 'time' | 'turns' } // A quick game ended on points
+  | { type: 'turn_passed'; from: PlayerColor; to: PlayerColor }
+  | { type: 'won'; color: PlayerColor };
+
+export interface EngineResult {
+  state: GameState;
+  events: EngineEvent[];
+}
+
+export function createEngineContext(room: GameRoom): EngineContext {
+  return {
+    // One turn per colour, clockwise, so a player with two colours gets two turns a round
+    turnOrder: BOARD_ORDER.filter(color => room.players.some(p => p.colors.includes(color))),
+    rules: room.rules,
+    teams: GAME_MODES[room.gameMode].teams,
+  };
+}
+
+export function getPlayerForColor(room: GameRoom, color: PlayerColor): Player | undefined {
+  return room.players.find(p => p.colors.includes(color));
+}
+
+// Player whose turn it is in a started game
+export function getTurnPlayer(room: GameRoom): Player | undefined {
+  return getPlayerForColor(room, getCurrentColor(room.gameState, createEngineContext(room)));
+}
+
+// Pieces start in base, or on their start cell in a quick game
+export function createInitialPieces(colors: PlayerColor[], rules: RoomRules = DEFAULT_ROOM_RULES): GamePiece[] {
+  const pieces: GamePiece[] = [];
+  colors.forEach(color => {
+    for (let i = 0; i < 4; i++) {
+      const piece: GamePiece = {
+        id: `${color}-${i}`,
+        color,
+        position: rules.quick ? 0 : BASE_POSITION,
+        isSafe: true,
+      };
+      piece.isSafe = isPieceOnSafeSpot(piece, rules);
+      pieces.push(piece);
+    }
+  });
+  return pieces;
+}
+
+export function createInitialState(colors: PlayerColor[], rules: RoomRules = DEFAULT_ROOM_RULES): GameState {
+  return {
+    pieces: createInitialPieces(colors, rules),
+    currentTurnIndex: 0,
+    diceValue: null,
+    lastDiceValue: null,
+    isFirstRollOfTurn: true,
+    waitingForMove: false,
+    consecutiveSixes: 0,
+    captureCounts: {},
+    capturesSuffered: {},
+    turnsPlayed: 0,
+    endsAt: null,
+    turnDeadline: null,
+    consecutiveTimeouts: {},
+    finishingOrder: [],
+    winner: null,
+    started: true,
+  };
+}
+
+export function getSafeSpotPositions(rules: RoomRules): number[] {
+  switch (rules.safeSpots) {
+    case 'standard':
+      return SAFE_SPOT_POSITIONS;
+    case 'starts-only':
+      return START_SPOT_POSITIONS;
+    case 'none':
+      return [];
+  }
+}
+
+export function isOnMainTrack(piece: GamePiece): boolean {
+  return piece.position >= 0 && piece.position <= LAST_TRACK_POSITION;
+}
+
+function toAbsolute(color: PlayerColor, position: number): number {
+  return (position + PLAYER_START_OFFSETS[color]) % TRACK_LENGTH;
+}
+
+// Convert a piece's relative position to absolute track position (0-51)
+export function getAbsoluteTrackPosition(piece: GamePiece): number {
+  if (!isOnMainTrack(piece)) {
+    return -1; // Not on main track (base, home path, or finished)
+  }
+  return toAbsolute(piece.color, piece.position);
+}
+
+// Check if a piece is on a safe spot (using absolute track position)
+export function isPieceOnSafeSpot(piece: GamePiece, rules: RoomRules): boolean {
+  // Base, home path and finished pieces are always safe
+  if (!isOnMainTrack(piece)) return true;
+  return getSafeSpotPositions(rules).includes(getAbsoluteTrackPosition(piece));
+}
+
+// With captureToEnterHome the home column stays closed until the colour has
+// captured something; until then its pieces go round the track again
+function mustLap(state: GameState, piece: GamePiece, rules: RoomRules): boolean {
+  return rules.captureToEnterHome && isOnMainTrack(piece) && !state.captureCounts[piece.color];
+}
+
+// Where a piece would end up with this roll, ignoring whether the move is legal.
+// A lapping piece that would stop on the cell before its start gets
+// BASE_POSITION, since that cell has no position of its own.
+export function getTargetPosition(piece: GamePiece, roll: number, rules: RoomRules, lap = false): number {
+  if (piece.position === BASE_POSITION) return 0;
+  const target = piece.position + roll;
+  if (lap && target > LAST_TRACK_POSITION) return target - TRACK_LENGTH;
+  return rules.exactRollToFinish ? target : Math.min(target, HOME_POSITION);
+}
+
+// Colours playing together with this one: its team, or just itself
+export function sideOf(ctx: EngineContext, color: PlayerColor): PlayerColor[] {
+  return ctx.teams?.find(team => team.includes(color)) || [color];
+}
+
+function isOpponent(ctx: EngineContext, color: PlayerColor, other: PlayerColor): boolean {
+  return !sideOf(ctx, color).includes(other);
+}
+
+// Two or more pieces of one opponent colour on an absolute cell form a block
+function isBlockedByOpponent(state: GameState, ctx: EngineContext, color: PlayerColor, absolutePos: number): boolean {
+  const counts = new Map<PlayerColor, number>();
+  state.pieces.forEach(p => {
+    if (isOpponent(ctx, color, p.color) && isOnMainTrack(p) && getAbsoluteTrackPosition(p) === absolutePos) {
+      counts.set(p.color, (counts.get(p.color) || 0) + 1);
+    }
+  });
+  return Array.from(counts.values()).some(count => count >= 2);
+}
+
+export function canMovePiece(state: GameState, piece: GamePiece, roll: number, ctx: EngineContext): boolean {
+  const { rules } = ctx;
+  if (piece.position === FINISHED_POSITION) return false;
+
+  if (piece.position === BASE_POSITION && !rules.leaveBaseRolls.includes(roll)) {
+    return false;
+  }
+
+  const lap = mustLap(state, piece, rules);
+  const target = getTargetPosition(piece, roll, rules, lap);
+  // Cannot overshoot home, or stop a lap short of the start
+  if (target > HOME_POSITION || (lap && target === BASE_POSITION)) return false;
+
+  if (rules.blocksCannotBePassed) {
+    const first = piece.position === BASE_POSITION ? 0 : piece.position + 1;
+    const last = lap ? piece.position + roll : Math.min(target, LAST_TRACK_POSITION);
+    for (let pos = first; pos <= last; pos++) {
+      if (isBlockedByOpponent(state, ctx, piece.color, toAbsolute(piece.color, pos))) return false;
+    }
+  }
+
+  return true;
+}
+
+export function getMovablePieces(state: GameState, color: PlayerColor, roll: number, ctx: EngineContext): GamePiece[] {
+  return state.pieces.filter(p => p.color === color && canMovePiece(state, p, roll, ctx));
+}
+
+export function getCurrentColor(state: GameState, ctx: EngineContext): PlayerColor {
+  return ctx.turnOrder[state.currentTurnIndex];
+}
+
+function allHome(state: GameState, color: PlayerColor): boolean {
+  return state.pieces.filter(p => p.color === color).every(p => p.position === FINISHED_POSITION);
+}
+
+// Colour whose pieces the current player moves. In team play a player with
+// every piece home rolls and moves for their partner.
+export function getMovingColor(state: GameState, ctx: EngineContext): PlayerColor {
+  const color = getCurrentColor(state, ctx);
+  if (!allHome(state, color)) return color;
+  return sideOf(ctx, color).find(c => c !== color && !allHome(state, c)) || color;
+}
+
+export function hasFinished(state: GameState, color: PlayerColor): boolean {
+  return state.finishingOrder.includes(color);
+}
+
+// First seat from `index` onwards, wrapping round, whose colour is still
+// playing. Returns `index` if every colour has finished.
+export function nextActiveSeat(state: GameState, ctx: EngineContext, index: number): number {
+  const seats = ctx.turnOrder.length;
+  for (let i = 0; i < seats; i++) {
+    const seat = (index + i) % seats;
+    if (!hasFinished(state, ctx.turnOrder[seat])) return seat;
+  }
+  return index % seats;
+}
+
+// Hand the turn to the next seat still playing, remembering the roll for the weighted dice
+function passTurn(state: GameState, ctx: EngineContext, roll: number | null, events: EngineEvent[]) {
+  const from = getCurrentColor(state, ctx);
+  state.lastDiceValue = roll;
+  state.isFirstRollOfTurn = true;
+  state.consecutiveSixes = 0;
+  state.currentTurnIndex = nextActiveSeat(state, ctx, state.currentTurnIndex + 1);
+  state.turnsPlayed++;
+  events.push({ type: 'turn_passed', from, to: getCurrentColor(state, ctx) });
+
+  if (ctx.rules.quick && ctx.rules.quickTurns > 0 && state.turnsPlayed >= ctx.rules.quickTurns) {
+    endOnLimit(state, ctx, 'turns', events);
+  }
+}
+
+// How far a colour's pieces have got in total, for placing unfinished colours
+function progress(state: GameState, color: PlayerColor): number {
+  return state.pieces
+    .filter(p => p.color === color)
+    .reduce((sum, p) => sum + (p.position === FINISHED_POSITION ? HOME_POSITION : Math.max(p.position, 0)), 0);
+}
+
+export function getScore(state: GameState, color: PlayerColor): number {
+  const home = state.pieces.filter(p => p.color === color && p.position === FINISHED_POSITION).length;
+  const lost = state.capturesSuffered[color] || 0;
+  return progress(state, color) + home * QUICK_HOME_BONUS - lost * QUICK_CAPTURE_PENALTY;
+}
+
+// finishingOrder grouped by place; partners share one
+export function getPlaces(state: GameState, ctx: EngineContext): PlayerColor[][] {
+  const places: PlayerColor[][] = [];
+  state.finishingOrder.forEach(color => {
+    const last = places[places.length - 1];
+    if (last && sideOf(ctx, last[0]).includes(color)) {
+      last.push(color);
+    } else {
+      places.push([color]);
+    }
+  });
+  return places;
+}
+
+// Place a whole side at once; partners share their place
+function place(state: GameState, side: PlayerColor[], events: EngineEvent[]) {
+  // Every side in a game is the same size, so this counts the sides placed so far
+  const placeNumber = state.finishingOrder.length / side.length + 1;
+  side.forEach(color => {
+    state.finishingOrder = [...state.finishingOrder, color];
+    events.push({ type: 'placed', color, place: placeNumber });
+  });
+}
+
+function playingSides(state: GameState, ctx: EngineContext): PlayerColor[][] {
+  const playing: PlayerColor[][] = [];
+  ctx.turnOrder.forEach(color => {
+    if (!hasFinished(state, color) && !playing.some(side => side.includes(color))) {
+      playing.push(sideOf(ctx, color));
+    }
+  });
+  return playing;
+}
+
+// End the match, placing the sides still playing by how far they got, or by
+// score in a quick game
+function placeRemaining(state: GameState, ctx: EngineContext, events: EngineEvent[]) {
+  const standing = (color: PlayerColor) => ctx.rules.quick ? getScore(state, color) : progress(state, color);
+  const sideStanding = (side: PlayerColor[]) => side.reduce((sum, color) => sum + standing(color), 0);
+  playingSides(state, ctx)
+    .sort((a, b) => sideStanding(b) - sideStanding(a))
+    .forEach(side => place(state, side, events));
+  state.winner = state.finishingOrder[0];
+  events.push({ type: 'won', color: state.winner });
+}
+
+// The match ends when the first side gets home or, with playToEnd, when only
+// one is left
+function settleIfOver(state: GameState, ctx: EngineContext, events: EngineEvent[]) {
+  if (ctx.rules.playToEnd && playingSides(state, ctx).length > 1) return;
+  placeRemaining(state, ctx, events);
+}
+
+function endOnLimit(state: GameState, ctx: EngineContext, limit: 'time' | 'turns', events: EngineEvent[]) {
+  state.waitingForMove = false;
+  state.diceValue = null;
+  events.push({ type: 'limit_reached', limit });
+  placeRemaining(state, ctx, events);
+}
+
+function applyRoll(state: GameState, ctx: EngineContext, roll: number, events: EngineEvent[]) {
+  const { rules } = ctx;
+  if (state.winner) {
+    throw new GameError('GAME_OVER', 'Game is over');
+  }
+  if (state.waitingForMove) {
+    throw new GameError('ALREADY_ROLLED', 'Already rolled, make your move');
+  }
+
+  const color = getCurrentColor(state, ctx);
+  state.diceValue = roll;
+  state.isFirstRollOfTurn = false;
+  state.consecutiveSixes = roll === 6 ? state.consecutiveSixes + 1 : 0;
+  events.push({ type: 'rolled', color, value: roll });
+
+  if (rules.threeSixesForfeit && state.consecutiveSixes >= 3) {
+    events.push({ type: 'forfeited', color });
+    state.diceValue = null;
+    passTurn(state, ctx, roll, events);
+    return;
+  }
+
+  if (getMovablePieces(state, getMovingColor(state, ctx), roll, ctx).length > 0) {
+    state.waitingForMove = true;
+    return;
+  }
+
+  // No valid moves, next turn (unless a 6 earns another roll)
+  if (!(roll === 6 && rules.extraTurnOnSix)) {
+    passTurn(state, ctx, roll, events);
+  }
+  state.diceValue = null;
+}
+
+function applyMove(state: GameState, ctx: EngineContext, pieceId: string, events: EngineEvent[]) {
+  const { rules } = ctx;
+  if (!state.waitingForMove || !state.diceValue) {
+    throw new GameError('ROLL_FIRST', 'Roll the dice first');
+  }
+
+  const color = getMovingColor(state, ctx);
+  const piece = state.pieces.find(p => p.id === pieceId);
+  if (!piece || piece.color !== color) {
+    throw new GameError('INVALID_PIECE', 'Invalid piece');
+  }
+
+  const roll = state.diceValue;
+  if (!canMovePiece(state, piece, roll, ctx)) {
+    throw new GameError('INVALID_MOVE', 'Invalid move');
+  }
+
+  const from = piece.position;
+  piece.position = getTargetPosition(piece, roll, rules, mustLap(state, piece, rules));
+  piece.isSafe = isPieceOnSafeSpot(piece, rules);
+  events.push({ type: 'moved', pieceId: piece.id, color, from, to: piece.position });
+
+  // Capture (only on main track, and never on a safe spot)
+  let captured = false;
+  if (isOnMainTrack(piece) && !piece.isSafe) {
+    const absolutePos = getAbsoluteTrackPosition(piece);
+    const victims = state.pieces.filter(other =>
+      isOpponent(ctx, color, other.color) &&
+      isOnMainTrack(other) &&
+      getAbsoluteTrackPosition(other) === absolutePos
+    );
+    const sentHome = rules.captureAllOnLanding ? victims : victims.slice(0, 1);
+    sentHome.forEach(victim => {
+      events.push({ type: 'captured', piece: { ...victim }, by: piece.id });
+      victim.position = BASE_POSITION;
+      victim.isSafe = true;
+      state.capturesSuffered = { ...state.capturesSuffered, [victim.color]: (state.capturesSuffered[victim.color] || 0) + 1 };
+      captured = true;
+    });
+    if (captured) {
+      state.captureCounts = { ...state.captureCounts, [color]: (state.captureCounts[color] || 0) + sentHome.length };
+    }
+  }
+
+  let reachedHome = false;
+  if (piece.position === HOME_POSITION) {
+    piece.position = FINISHED_POSITION;
+    piece.isSafe = true;
+    reachedHome = true;
+    events.push({ type: 'finished', pieceId: piece.id, color });
+  }
+
+  const side = sideOf(ctx, color);
+  const sideFinished = side.every(c => allHome(state, c));
+  if (sideFinished) {
+    place(state, side, events);
+    settleIfOver(state, ctx, events);
+  }
+
+  state.waitingForMove = false;
+  state.diceValue = null;
+
+  const getAnotherTurn =
+    (roll === 6 && rules.extraTurnOnSix) ||
+    (captured && rules.extraTurnOnCapture) ||
+    (reachedHome && rules.extraTurnOnHome);
+
+  // A side that has just finished has no more turns to take
+  if ((!getAnotherTurn || sideFinished) && !state.winner) {
+    passTurn(state, ctx, roll, events);
+  }
+}
+
+function cloneState(state: GameState): GameState {
+  return { ...state, pieces: state.pieces.map(p => ({ ...p })) };
+}
+
+export function applyAction(state: GameState, action: EngineAction, ctx: EngineContext): EngineResult {
+  const next = cloneState(state);
+  const events: EngineEvent[] = [];
+
+  switch (action.type) {
+    case 'roll':
+      applyRoll(next, ctx, action.value, events);
+      break;
+    case 'move':
+      applyMove(next, ctx, action.pieceId, events);
+      break;
+    case 'time_up':
+      if (next.winner) throw new GameError('GAME_OVER', 'Game is over');
+      endOnLimit(next, ctx, 'time', events);
+      break;
+    case 'pass': {
+      if (next.winner) throw new GameError('GAME_OVER', 'Game is over');
+      const roll = next.diceValue ?? next.lastDiceValue;
+      next.waitingForMove = false;
+      next.diceValue = null;
+      passTurn(next, ctx, roll, events);
+      break;
+    }
+  }
+
+  return { state: next, events };
+}
@@ -0,0 +1,21 @@
+// Provably fair dice. A roll is derived from HMAC-SHA256(serverSeed, message)
+// where the server seed's SHA-256 hash is published before the game starts.
+// Hashing is platform specific (node:crypto on the server, Web Crypto in the
+// browser), so only the message format and digest-to-roll mapping live here.
+
+// Largest multiple of 6 below 2^32; chunks at or above it are skipped to avoid modulo bias
+const UNBIASED_LIMIT = Math.floor(0x100000000 / 6) * 6;
+
+export function getRollMessage(clientSeed: string, nonce: number): string {
+  return `${clientSeed}:${nonce}`;
+}
+
+// Turn a hex HMAC digest into a dice value (1-6) by reading it 32 bits at a time
+export function rollFromDigest(hexDigest: string): number {
+  let value = 0;
+  for (let i = 0; i + 8 <= hexDigest.length; i += 8) {
+    value = parseInt(hexDigest.slice(i, i + 8), 16);
+    if (value < UNBIASED_LIMIT) break;
+  }
+  return (value % 6) + 1;
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { GameRoom } from './schema';
+import { DEFAULT_ROOM_RULES, createInitialState } from './ludo-engine';
+import { applyRoomDelta, diffRooms } from './room-delta';
+
+function createRoom(): GameRoom {
+  return {
+    code: 'ABC123',
+    players: [
+      { id: 'p1', name: 'Ann', color: 'red', colors: ['red'], ready: true, connected: true, bot: null },
+      { id: 'p2', name: 'Bob', color: 'yellow', colors: ['yellow'], ready: true, connected: true, bot: null },
+    ],
+    hostId: 'p1',
+    locked: false,
+    gameMode: '2-player',
+    rules: DEFAULT_ROOM_RULES,
+    diceMode: 'provably-fair',
+    diceAudit: { serverSeedHash: 'hash', serverSeed: null, clientSeeds: { p1: 'a', p2: 'b' }, rolls: [] },
+    turnTimer: { seconds: 0, maxTimeouts: 3, onMaxTimeouts: 'bot' },
+    gameState: createInitialState(['red', 'yellow']),
+    spectatorCount: 0,
+    version: 1,
+    createdAt: 0,
+  };
+}
+
+// The delta as a client receives it, after a trip through JSON
+function send(prev: GameRoom, next: GameRoom) {
+  return JSON.parse(JSON.stringify(diffRooms(prev, next)));
+}
+
+describe('diffRooms', () => {
+  it('sends only what changed', () => {
+    const prev = createRoom();
+    const next = structuredClone(prev);
+    next.version = 2;
+    next.gameState.pieces[0].position = 0;
+    next.gameState.currentTurnIndex = 1;
+
+    expect(diffRooms(prev, next)).toEqual({
+      code: 'ABC123',
+      baseVersion: 1,
+      version: 2,
+      gameState: { currentTurnIndex: 1 },
+      pieces: [next.gameState.pieces[0]],
+    });
+  });
+
+  it('lists fields that were removed or set to undefined', () => {
+    const prev = createRoom();
+    const next = structuredClone(prev);
+    next.version = 2;
+    delete (next as Partial<GameRoom>).createdAt;
+    (next.gameState as { turnDeadline?: number | null }).turnDeadline = undefined;
+
+    const delta = send(prev, next);
+
+    expect(delta.removedRoomKeys).toEqual(['createdAt']);
+    expect(delta.removedGameStateKeys).toEqual(['turnDeadline']);
+    expect(applyRoomDelta(prev, delta)).toEqual(JSON.parse(JSON.stringify(next)));
+  });
+
+  it('sends only the rolls appended since the last version', () => {
+    const prev = createRoom();
+    prev.diceAudit.rolls = [{ nonce: 0, playerId: 'p1', color: 'red', clientSeed: 'a', value: 4 }];
+    const next = structuredClone(prev);
+    next.version = 2;
+    next.diceAudit.rolls.push({ nonce: 1, playerId: 'p2', color: 'yellow', clientSeed: 'b', value: 6 });
+
+    const delta = diffRooms(prev, next);
+
+    expect(delta.newRolls).toEqual([next.diceAudit.rolls[1]]);
+    expect(delta.diceAudit).toBeUndefined();
+  });
+});
+
+describe('applyRoomDelta', () => {
+  it('rebuilds the next room from the previous one', () => {
+    const prev = createRoom();
+    const next = structuredClone(prev);
+    next.version = 2;
+    next.players = next.players.slice(0, 1);
+    next.hostId = null;
+    next.gameState.pieces = next.gameState.pieces.filter(p => p.color === 'red');
+    next.gameState.pieces[1].position = 12;
+    next.gameState.winner = 'red';
+
+    expect(applyRoomDelta(prev, send(prev, next))).toEqual(next);
+  });
+
+  it('refuses a delta that starts from another version', () => {
+    const prev = createRoom();
+    const next = { ...structuredClone(prev), version: 3 };
+    const delta = diffRooms({ ...prev, version: 2 }, next);
+
+    expect(applyRoomDelta(prev, delta)).toBeNull();
+  });
+
+  it('leaves its inputs alone', () => {
+    const prev = createRoom();
+    const next = structuredClone(prev);
+    next.version = 2;
+    next.gameState.pieces[0].position = 5;
+    const snapshot = structuredClone(prev);
+
+    applyRoomDelta(prev, diffRooms(prev, next));
+
+    expect(prev).toEqual(snapshot);
+  });
+});
@@ -0,0 +1,89 @@
+import type { GamePiece, GameRoom, GameStateDeltaFields, RoomDelta, RoomDeltaFields } from './schema';
+
+// Pure helpers for sending only what changed in a GameRoom. The server diffs
+// the room against the copy it last broadcast; clients apply the result to
+// their own copy. Neither function mutates its inputs.
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function samePiece(a: GamePiece, b: GamePiece): boolean {
+  return a.position === b.position && a.isSafe === b.isSafe && a.color === b.color;
+}
+
+// Fields that differ between two objects. Keys that `next` dropped or set to
+// undefined are listed in removed, since JSON would leave them out of changed.
+function diffFields<T extends object>(prev: T, next: T, skip: string[]) {
+  const changed: Partial<T> = {};
+  const removed: (keyof T)[] = [];
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)] as (keyof T)[]);
+  keys.forEach(key => {
+    if (skip.includes(key as string) || same(prev[key], next[key])) return;
+    if (next[key] === undefined) removed.push(key);
+    else changed[key] = next[key];
+  });
+  return { changed, removed };
+}
+
+function withoutKeys<T extends object>(value: T, keys: string[] = []): T {
+  return Object.fromEntries(Object.entries(value).filter(([key]) => !keys.includes(key))) as T;
+}
+
+export function diffRooms(prev: GameRoom, next: GameRoom): RoomDelta {
+  const delta: RoomDelta = { code: next.code, baseVersion: prev.version, version: next.version };
+
+  const room = diffFields<RoomDeltaFields>(prev, next, ['code', 'version', 'gameState', 'diceAudit']);
+  if (Object.keys(room.changed).length > 0) delta.room = room.changed;
+  if (room.removed.length > 0) delta.removedRoomKeys = room.removed;
+
+  const gameState = diffFields<GameStateDeltaFields>(prev.gameState, next.gameState, ['pieces']);
+  if (Object.keys(gameState.changed).length > 0) delta.gameState = gameState.changed;
+  if (gameState.removed.length > 0) delta.removedGameStateKeys = gameState.removed;
+
+  const prevPieces = new Map(prev.gameState.pieces.map(p => [p.id, p]));
+  const pieces = next.gameState.pieces.filter(p => {
+    const before = prevPieces.get(p.id);
+    return !before || !samePiece(before, p);
+  });
+  if (pieces.length > 0) delta.pieces = pieces;
+
+  const nextPieceIds = new Set(next.gameState.pieces.map(p => p.id));
+  const removedPieceIds = prev.gameState.pieces.filter(p => !nextPieceIds.has(p.id)).map(p => p.id);
+  if (removedPieceIds.length > 0) delta.removedPieceIds = removedPieceIds;
+
+  // Rolls are only ever appended, so send just the new ones
+  const { rolls: prevRolls, ...prevAudit } = prev.diceAudit;
+  const { rolls: nextRolls, ...nextAudit } = next.diceAudit;
+  if (!same(prevAudit, nextAudit)) delta.diceAudit = nextAudit;
+  if (nextRolls.length > prevRolls.length) delta.newRolls = nextRolls.slice(prevRolls.length);
+
+  return delta;
+}
+
+// Returns null if the delta doesn't start from this room's version; the
+// caller should then ask for a full snapshot
+export function applyRoomDelta(room: GameRoom, delta: RoomDelta): GameRoom | null {
+  if (delta.code !== room.code || delta.baseVersion !== room.version) return null;
+
+  const changed = new Map((delta.pieces || []).map(p => [p.id, p]));
+  const removed = new Set(delta.removedPieceIds || []);
+  const pieces = room.gameState.pieces
+    .filter(p => !removed.has(p.id))
+    .map(p => changed.get(p.id) || p);
+  const existing = new Set(pieces.map(p => p.id));
+  (delta.pieces || []).forEach(p => {
+    if (!existing.has(p.id)) pieces.push(p);
+  });
+
+  return {
+    ...withoutKeys(room, delta.removedRoomKeys),
+    ...delta.room,
+    version: delta.version,
+    gameState: { ...withoutKeys(room.gameState, delta.removedGameStateKeys), ...delta.gameState, pieces },
+    diceAudit: {
+      ...(delta.diceAudit || room.diceAudit),
+      rolls: [...room.diceAudit.rolls, ...(delta.newRolls || [])],
+    },
+  };
+}
@@ -1,8 +1,13 @@
 import { z } from "zod";
+import { pgTable, text, varchar, integer, boolean, jsonb, serial, timestamp, index } from "drizzle-orm/pg-core";
+import type { EngineEvent } from "./ludo-engine";
 
 // Game types for multiplayer
 export type PlayerColor = 'red' | 'green' | 'yellow' | 'blue';
-export type GameMode = '2-player' | '4-player';
+export type GameMode = '2-player' | '2-player-dual' | '3-player' | '4-player' | '2v2';
+export type BotStrategy = 'random' | 'greedy' | 'lookahead';
+export type DiceMode = 'weighted' | 'fair' | 'provably-fair';
+export type Emote = 'thumbs-up' | 'laugh' | 'wow' | 'angry' | 'cry' | 'gg';
 
 export interface GamePiece {
   id: string;
@@ -14,47 +19,264 @@ export interface GamePiece {
 export interface Player {
   id: string;
   name: string;
-  color: PlayerColor | null;
+  color: PlayerColor | null; // The colour they picked
+  colors: PlayerColor[]; // Every colour they play, including `color`
   ready: boolean;
+  connected: boolean; // False while the seat is held for a dropped connection
+  bot: BotStrategy | null; // Set for computer-controlled seats
+}
+
+export type SafeSpotRule = 'standard' | 'starts-only' | 'none';
+
+// House rules chosen by the host before the game starts
+export interface RoomRules {
+  leaveBaseRolls: number[]; // Rolls that bring a piece out of base
+  exactRollToFinish: boolean; // Otherwise overshooting home still finishes
+  extraTurnOnSix: boolean;
+  extraTurnOnCapture: boolean;
+  extraTurnOnHome: boolean;
+  threeSixesForfeit: boolean; // Third 6 in a row ends the turn
+  captureToEnterHome: boolean; // Must capture once before entering the home column; until then pieces go round again
+  blocksCannotBePassed: boolean; // Two pieces of one colour on a cell block opponents
+  captureAllOnLanding: boolean; // Otherwise only one piece is captured per landing
+  safeSpots: SafeSpotRule;
+  playToEnd: boolean; // Keep playing for the lower places; otherwise the first home wins outright
+  quick: boolean; // Quick Ludo: pieces start on the track and a limit ends the game on points
+  quickMinutes: number; // Time limit for a quick game; 0 for none
+  quickTurns: number; // Turn limit for a quick game, counted across all players; 0 for none
+}
+
+export interface GameState {
+  pieces: GamePiece[];
+  currentTurnIndex: number;
+  diceValue: number | null;
+  lastDiceValue: number | null; // Last roll from PREVIOUS player for weighted probability
+  isFirstRollOfTurn: boolean; // Track if this is the first roll of current player's turn
+  waitingForMove: boolean;
+  consecutiveSixes: number; // Sixes rolled in a row during the current turn
+  captureCounts: Partial<Record<PlayerColor, number>>; // Captures made per colour
+  capturesSuffered: Partial<Record<PlayerColor, number>>; // Pieces lost to captures per colour
+  turnsPlayed: number; // Turns handed on so far, across all players
+  endsAt: number | null; // Epoch ms when a quick game's time limit ends it
+  turnDeadline: number | null; // Epoch ms by which the current player must act; null when untimed
+  consecutiveTimeouts: Partial<Record<PlayerColor, number>>; // Turns in a row auto-played per colour
+  finishingOrder: PlayerColor[]; // Colours placed so far, first place first
+  winner: PlayerColor | null; // First place, set once the match is over
+  started: boolean;
+}
+
+// What happens to a player who keeps letting the turn timer run out
+export type TimeoutAction = 'bot' | 'remove';
+
+// Why the server closed a room: nobody acted on it for too long, the game
+// ended a while ago, or only bots were left playing
+export type RoomClosedReason = 'idle' | 'finished' | 'abandoned';
+
+// Why the host changed: handed over by the old host, or moved automatically
+// because the old host left or lost their connection
+export type HostChangeReason = 'transferred' | 'left' | 'disconnected';
+
+export interface TurnTimerSettings {
+  seconds: number; // Time allowed for each roll or move; 0 turns the timer off
+  maxTimeouts: number; // Consecutive timeouts before onMaxTimeouts applies
+  onMaxTimeouts: TimeoutAction;
+}
+
+export interface DiceRollRecord {
+  nonce: number; // Index of the roll within the match
+  playerId: string;
+  color: PlayerColor;
+  clientSeed: string;
+  value: number;
+}
+
+// Commitment and roll log for provably fair dice. The server seed is only
+// revealed once the game is over.
+export interface DiceAudit {
+  serverSeedHash: string;
+  serverSeed: string | null;
+  clientSeeds: Record<string, string>; // Keyed by player id
+  rolls: DiceRollRecord[];
 }
 
 export interface GameRoom {
   code: string;
   players: Player[];
+  hostId: string | null; // Human who controls the lobby; null once only bots are left
+  locked: boolean; // Locked rooms refuse new players but still allow spectators
   gameMode: GameMode;
-  gameState: {
-    pieces: GamePiece[];
-    currentTurnIndex: number;
-    diceValue: number | null;
-    lastDiceValue: number | null; // Last roll from PREVIOUS player for weighted probability
-    isFirstRollOfTurn: boolean; // Track if this is the first roll of current player's turn
-    waitingForMove: boolean;
-    winner: PlayerColor | null;
-    started: boolean;
-  };
+  rules: RoomRules;
+  diceMode: DiceMode;
+  diceAudit: DiceAudit;
+  turnTimer: TurnTimerSettings;
+  gameState: GameState;
+  spectatorCount: number; // Read-only observers currently watching
+  version: number; // Goes up with every change clients can see
   createdAt: number;
 }
 
-// WebSocket message types
-export type WSMessage =
+export type RoomDeltaFields = Omit<GameRoom, 'code' | 'version' | 'gameState' | 'diceAudit'>;
+export type GameStateDeltaFields = Omit<GameState, 'pieces'>;
+
+// What changed in a room between two versions. Fields hold their new values
+// and the removed*Keys lists name fields that no longer have one; pieces lists
+// only pieces that changed or appeared, and newRolls only the rolls appended
+// to diceAudit.rolls since baseVersion.
+export interface RoomDelta {
+  code: string;
+  baseVersion: number;
+  version: number;
+  room?: Partial<RoomDeltaFields>;
+  removedRoomKeys?: (keyof RoomDeltaFields)[];
+  gameState?: Partial<GameStateDeltaFields>;
+  removedGameStateKeys?: (keyof GameStateDeltaFields)[];
+  pieces?: GamePiece[];
+  removedPieceIds?: string[];
+  diceAudit?: Omit<DiceAudit, 'rolls'>;
+  newRolls?: DiceRollRecord[];
+}
+
+export interface ChatMessage {
+  id: string;
+  senderId: string;
+  name: string;
+  color: PlayerColor | null; // null for spectators
+  text: string;
+  createdAt: number;
+}
+
+// Something that happened in a game: either an engine event or the game starting
+export type GameEventData =
+  | EngineEvent
+  | { type: 'started'; turnOrder: PlayerColor[] };
+
+// One entry in a room's event log, in the order the server applied it
+export type GameEventType = GameEventData['type'];
+export type GameEvent = GameEventData & {
+  seq: number;
+  playerId: string | null; // Player whose action caused the event
+  createdAt: number;
+};
+
+// Everything needed to replay a game from its event log
+export interface GameReplay {
+  code: string;
+  gameMode: GameMode;
+  players: Player[];
+  rules: RoomRules;
+  events: GameEvent[];
+  finished: boolean;
+}
+
+// Bump PROTOCOL_VERSION whenever WSMessage or WSResponse change. Raise
+// MIN_PROTOCOL_VERSION to match whenever a change would make an older client
+// misread what it gets, e.g. a field whose meaning changed (v7 hostId, v8
+// currentTurnIndex counting colours and Player.colors) or removed fields it
+// won't drop (v10 room deltas). The server tells clients older than that, and
+// clients that never send 'hello', to reload.
+export const PROTOCOL_VERSION = 11;
+export const MIN_PROTOCOL_VERSION = 10;
+
+// Optional features agreed in the 'hello' handshake. Each side lists what it
+// supports and only the features both have are used.
+export type Capability = 'chat' | 'emotes' | 'spectate' | 'turn_timer';
+export const CAPABILITIES: Capability[] = ['chat', 'emotes', 'spectate', 'turn_timer'];
+
+// WebSocket message types. The optional id is chosen by the client and echoed
+// back as requestId if the message fails; v is the sender's protocol version.
+export type WSMessage = (
+  | { type: 'hello'; payload: { version: number; capabilities: string[] } }
   | { type: 'join'; payload: { roomCode: string; playerName: string } }
+  | { type: 'spectate'; payload: { roomCode: string } }
   | { type: 'create'; payload: { playerName: string; gameMode: GameMode } }
   | { type: 'choose_color'; payload: { color: PlayerColor } }
   | { type: 'ready' }
+  | { type: 'set_rules'; payload: { rules: Partial<RoomRules> } }
+  | { type: 'set_dice_mode'; payload: { diceMode: DiceMode } }
+  | { type: 'set_turn_timer'; payload: { turnTimer: Partial<TurnTimerSettings> } }
+  | { type: 'set_client_seed'; payload: { clientSeed: string } }
+  | { type: 'add_bot'; payload: { strategy: BotStrategy } }
+  | { type: 'remove_bot'; payload: { botId: string } }
+  | { type: 'kick_player'; payload: { playerId: string } }
+  | { type: 'transfer_host'; payload: { playerId: string } }
+  | { type: 'lock_room'; payload: { locked: boolean } }
+  | { type: 'chat'; payload: { text: string } }
+  | { type: 'emote'; payload: { emote: Emote } }
   | { type: 'start_game' }
   | { type: 'roll_dice' }
   | { type: 'move_piece'; payload: { pieceId: string } }
-  | { type: 'leave' };
+  | { type: 'resume'; payload: { sessionToken: string } }
+  | { type: 'sync' }
+  | { type: 'ping'; payload: { sentAt: number } }
+  | { type: 'leave' }
+) & { id?: string; v?: number };
 
-export type WSResponse =
-  | { type: 'room_joined'; payload: { room: GameRoom; playerId: string } }
-  | { type: 'room_created'; payload: { room: GameRoom; playerId: string } }
+export type WSResponse = (
+  | { type: 'hello'; payload: HelloResponse }
+  | { type: 'room_joined'; payload: { room: GameRoom; playerId: string; sessionToken: string } }
+  | { type: 'room_created'; payload: { room: GameRoom; playerId: string; sessionToken: string } }
+  // playerId is the spectator's id when a spectator resumes watching
+  | { type: 'session_resumed'; payload: { room: GameRoom; playerId: string; sessionToken: string } }
+  | { type: 'resume_failed'; payload: { message: string } }
+  | { type: 'spectating'; payload: { room: GameRoom; spectatorId: string; sessionToken: string } }
   | { type: 'room_updated'; payload: { room: GameRoom } }
+  | { type: 'room_delta'; payload: RoomDelta }
   | { type: 'game_started'; payload: { room: GameRoom } }
-  | { type: 'piece_captured'; payload: { capturedPiece: GamePiece; room: GameRoom } }
-  | { type: 'error'; payload: { message: string } };
+  | { type: 'piece_captured'; payload: { capturedPiece: GamePiece } }
+  | { type: 'chat'; payload: { message: ChatMessage } }
+  | { type: 'emote'; payload: { playerId: string; color: PlayerColor; emote: Emote } }
+  | { type: 'removed'; payload: { message: string } }
+  | { type: 'host_changed'; payload: { hostId: string; reason: HostChangeReason } }
+  | { type: 'room_closed'; payload: { code: string; reason: RoomClosedReason; message: string } }
+  | { type: 'pong'; payload: { sentAt: number } }
+  | { type: 'latency'; payload: { players: Record<string, number> } } // Round trip in ms by player id
+  | { type: 'error'; payload: { message: string; code: ErrorCode; requestId?: string } }
+) & { v?: number };
+
+// The server's answer to 'hello': go ahead with the agreed version and
+// features, or reload to pick up a client it can talk to
+export type HelloResponse =
+  | { status: 'accepted'; version: number; capabilities: Capability[] }
+  | { status: 'reload'; version: number; message: string };
+
+// Why a request failed, so clients can react to specific failures
+export type ErrorCode =
+  | 'INVALID_MESSAGE'
+  | 'ROOM_NOT_FOUND'
+  | 'ROOM_FULL'
+  | 'GAME_ALREADY_STARTED'
+  | 'ALREADY_IN_ROOM'
+  | 'NOT_IN_ROOM'
+  | 'NOT_SEATED'
+  | 'NOT_HOST'
+  | 'ROOM_LOCKED'
+  | 'INVALID_TARGET'
+  | 'COLOR_UNAVAILABLE'
+  | 'COLOR_TAKEN'
+  | 'INVALID_SETTINGS'
+  | 'PLAYERS_NOT_READY'
+  | 'NOT_YOUR_TURN'
+  | 'ALREADY_ROLLED'
+  | 'ROLL_FIRST'
+  | 'INVALID_PIECE'
+  | 'INVALID_MOVE'
+  | 'GAME_OVER'
+  | 'RATE_LIMITED'
+  | 'TOO_MANY_ROOMS'
+  | 'BANNED'
+  | 'INTERNAL_ERROR';
+
+// Validation schemas. The server checks every inbound WSMessage and the
+// client checks every WSResponse, so malformed data never reaches game code.
+const playerColorSchema = z.enum(['red', 'green', 'yellow', 'blue']);
+const gameModeSchema = z.enum(['2-player', '2-player-dual', '3-player', '4-player', '2v2']);
+const botStrategySchema = z.enum(['random', 'greedy', 'lookahead']);
+const diceModeSchema = z.enum(['weighted', 'fair', 'provably-fair']);
+const emoteSchema = z.enum(['thumbs-up', 'laugh', 'wow', 'angry', 'cry', 'gg']);
+const capabilitySchema = z.enum(['chat', 'emotes', 'spectate', 'turn_timer']);
+const roomClosedReasonSchema = z.enum(['idle', 'finished', 'abandoned']);
+const hostChangeReasonSchema = z.enum(['transferred', 'left', 'disconnected']);
 
-// Validation schemas
 export const joinRoomSchema = z.object({
   roomCode: z.string().length(6),
   playerName: z.string().min(1).max(20),
@@ -62,4 +284,251 @@ export const joinRoomSchema = z.object({
 
 export const createRoomSchema = z.object({
   playerName: z.string().min(1).max(20),
+  gameMode: gameModeSchema,
+});
+
+const roomRulesSchema = z.object({
+  leaveBaseRolls: z.array(z.number().int().min(1).max(6)).max(6),
+  exactRollToFinish: z.boolean(),
+  extraTurnOnSix: z.boolean(),
+  extraTurnOnCapture: z.boolean(),
+  extraTurnOnHome: z.boolean(),
+  threeSixesForfeit: z.boolean(),
+  captureToEnterHome: z.boolean(),
+  blocksCannotBePassed: z.boolean(),
+  captureAllOnLanding: z.boolean(),
+  safeSpots: z.enum(['standard', 'starts-only', 'none']),
+  playToEnd: z.boolean(),
+  quick: z.boolean(),
+  quickMinutes: z.number().int().min(0).max(120),
+  quickTurns: z.number().int().min(0).max(1000),
+});
+
+const turnTimerSchema = z.object({
+  seconds: z.number().int().min(0),
+  maxTimeouts: z.number().int().min(1),
+  onMaxTimeouts: z.enum(['bot', 'remove']),
+});
+
+const errorCodeSchema = z.enum([
+  'INVALID_MESSAGE', 'ROOM_NOT_FOUND', 'ROOM_FULL', 'GAME_ALREADY_STARTED', 'ALREADY_IN_ROOM',
+  'NOT_IN_ROOM', 'NOT_SEATED', 'NOT_HOST', 'ROOM_LOCKED', 'INVALID_TARGET', 'COLOR_UNAVAILABLE',
+  'COLOR_TAKEN', 'INVALID_SETTINGS', 'PLAYERS_NOT_READY', 'NOT_YOUR_TURN', 'ALREADY_ROLLED', 'ROLL_FIRST', 'INVALID_PIECE',
+  'INVALID_MOVE', 'GAME_OVER', 'RATE_LIMITED', 'TOO_MANY_ROOMS', 'BANNED', 'INTERNAL_ERROR',
+]);
+
+export const wsMessageSchema: z.ZodType<WSMessage> = z.discriminatedUnion('type', [
+  // Capabilities stay plain strings so a newer client can list ones we don't know
+  z.object({
+    type: z.literal('hello'),
+    payload: z.object({ version: z.number().int(), capabilities: z.array(z.string().max(32)).max(32) }),
+  }),
+  z.object({ type: z.literal('join'), payload: joinRoomSchema }),
+  z.object({ type: z.literal('spectate'), payload: z.object({ roomCode: z.string().length(6) }) }),
+  z.object({ type: z.literal('create'), payload: createRoomSchema }),
+  z.object({ type: z.literal('choose_color'), payload: z.object({ color: playerColorSchema }) }),
+  z.object({ type: z.literal('ready') }),
+  z.object({ type: z.literal('set_rules'), payload: z.object({ rules: roomRulesSchema.partial() }) }),
+  z.object({ type: z.literal('set_dice_mode'), payload: z.object({ diceMode: diceModeSchema }) }),
+  z.object({ type: z.literal('set_turn_timer'), payload: z.object({ turnTimer: turnTimerSchema.partial() }) }),
+  z.object({ type: z.literal('set_client_seed'), payload: z.object({ clientSeed: z.string().min(1).max(64) }) }),
+  z.object({ type: z.literal('add_bot'), payload: z.object({ strategy: botStrategySchema }) }),
+  z.object({ type: z.literal('remove_bot'), payload: z.object({ botId: z.string().max(64) }) }),
+  z.object({ type: z.literal('kick_player'), payload: z.object({ playerId: z.string().max(64) }) }),
+  z.object({ type: z.literal('transfer_host'), payload: z.object({ playerId: z.string().max(64) }) }),
+  z.object({ type: z.literal('lock_room'), payload: z.object({ locked: z.boolean() }) }),
+  z.object({ type: z.literal('chat'), payload: z.object({ text: z.string().max(200) }) }),
+  z.object({ type: z.literal('emote'), payload: z.object({ emote: emoteSchema }) }),
+  z.object({ type: z.literal('start_game') }),
+  z.object({ type: z.literal('roll_dice') }),
+  z.object({ type: z.literal('move_piece'), payload: z.object({ pieceId: z.string().max(32) }) }),
+  z.object({ type: z.literal('resume'), payload: z.object({ sessionToken: z.string().max(128) }) }),
+  z.object({ type: z.literal('sync') }),
+  z.object({ type: z.literal('ping'), payload: z.object({ sentAt: z.number() }) }),
+  z.object({ type: z.literal('leave') }),
+]).and(z.object({ id: z.string().max(64).optional(), v: z.number().int().optional() }));
+
+const gamePieceSchema = z.object({
+  id: z.string(),
+  color: playerColorSchema,
+  position: z.number().int(),
+  isSafe: z.boolean(),
+});
+
+const playerSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  color: playerColorSchema.nullable(),
+  colors: z.array(playerColorSchema),
+  ready: z.boolean(),
+  connected: z.boolean(),
+  bot: botStrategySchema.nullable(),
+});
+
+const gameStateSchema = z.object({
+  pieces: z.array(gamePieceSchema),
+  currentTurnIndex: z.number().int(),
+  diceValue: z.number().int().nullable(),
+  lastDiceValue: z.number().int().nullable(),
+  isFirstRollOfTurn: z.boolean(),
+  waitingForMove: z.boolean(),
+  consecutiveSixes: z.number().int(),
+  captureCounts: z.record(playerColorSchema, z.number()),
+  capturesSuffered: z.record(playerColorSchema, z.number()),
+  turnsPlayed: z.number().int(),
+  endsAt: z.number().nullable(),
+  turnDeadline: z.number().nullable(),
+  consecutiveTimeouts: z.record(playerColorSchema, z.number()),
+  finishingOrder: z.array(playerColorSchema),
+  winner: playerColorSchema.nullable(),
+  started: z.boolean(),
+});
+
+const diceRollSchema = z.object({
+  nonce: z.number().int(),
+  playerId: z.string(),
+  color: playerColorSchema,
+  clientSeed: z.string(),
+  value: z.number().int(),
+});
+
+const diceAuditSchema = z.object({
+  serverSeedHash: z.string(),
+  serverSeed: z.string().nullable(),
+  clientSeeds: z.record(z.string(), z.string()),
+  rolls: z.array(diceRollSchema),
 });
+
+const gameRoomSchema = z.object({
+  code: z.string(),
+  players: z.array(playerSchema),
+  hostId: z.string().nullable(),
+  locked: z.boolean(),
+  gameMode: gameModeSchema,
+  rules: roomRulesSchema,
+  diceMode: diceModeSchema,
+  diceAudit: diceAuditSchema,
+  turnTimer: turnTimerSchema,
+  gameState: gameStateSchema,
+  spectatorCount: z.number().int(),
+  version: z.number().int(),
+  createdAt: z.number(),
+});
+
+const roomDeltaFieldsSchema = gameRoomSchema.omit({ code: true, version: true, gameState: true, diceAudit: true });
+const gameStateDeltaFieldsSchema = gameStateSchema.omit({ pieces: true });
+
+const roomDeltaSchema = z.object({
+  code: z.string(),
+  baseVersion: z.number().int(),
+  version: z.number().int(),
+  room: roomDeltaFieldsSchema.partial().optional(),
+  removedRoomKeys: z.array(roomDeltaFieldsSchema.keyof()).optional(),
+  gameState: gameStateDeltaFieldsSchema.partial().optional(),
+  removedGameStateKeys: z.array(gameStateDeltaFieldsSchema.keyof()).optional(),
+  pieces: z.array(gamePieceSchema).optional(),
+  removedPieceIds: z.array(z.string()).optional(),
+  diceAudit: diceAuditSchema.omit({ rolls: true }).optional(),
+  newRolls: z.array(diceRollSchema).optional(),
+});
+
+const chatMessageSchema = z.object({
+  id: z.string(),
+  senderId: z.string(),
+  name: z.string(),
+  color: playerColorSchema.nullable(),
+  text: z.string(),
+  createdAt: z.number(),
+});
+
+const sessionPayloadSchema = z.object({ room: gameRoomSchema, playerId: z.string(), sessionToken: z.string() });
+
+const helloResponseSchema = z.discriminatedUnion('status', [
+  z.object({ status: z.literal('accepted'), version: z.number().int(), capabilities: z.array(capabilitySchema) }),
+  z.object({ status: z.literal('reload'), version: z.number().int(), message: z.string() }),
+]);
+
+export const wsResponseSchema: z.ZodType<WSResponse> = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('hello'), payload: helloResponseSchema }),
+  z.object({ type: z.literal('room_joined'), payload: sessionPayloadSchema }),
+  z.object({ type: z.literal('room_created'), payload: sessionPayloadSchema }),
+  z.object({ type: z.literal('session_resumed'), payload: sessionPayloadSchema }),
+  z.object({ type: z.literal('resume_failed'), payload: z.object({ message: z.string() }) }),
+  z.object({ type: z.literal('spectating'), payload: z.object({ room: gameRoomSchema, spectatorId: z.string(), sessionToken: z.string() }) }),
+  z.object({ type: z.literal('room_updated'), payload: z.object({ room: gameRoomSchema }) }),
+  z.object({ type: z.literal('game_started'), payload: z.object({ room: gameRoomSchema }) }),
+  z.object({ type: z.literal('room_delta'), payload: roomDeltaSchema }),
+  z.object({ type: z.literal('piece_captured'), payload: z.object({ capturedPiece: gamePieceSchema }) }),
+  z.object({ type: z.literal('chat'), payload: z.object({ message: chatMessageSchema }) }),
+  z.object({ type: z.literal('emote'), payload: z.object({ playerId: z.string(), color: playerColorSchema, emote: emoteSchema }) }),
+  z.object({ type: z.literal('removed'), payload: z.object({ message: z.string() }) }),
+  z.object({ type: z.literal('host_changed'), payload: z.object({ hostId: z.string(), reason: hostChangeReasonSchema }) }),
+  z.object({ type: z.literal('room_closed'), payload: z.object({ code: z.string(), reason: roomClosedReasonSchema, message: z.string() }) }),
+  z.object({ type: z.literal('pong'), payload: z.object({ sentAt: z.number() }) }),
+  z.object({ type: z.literal('latency'), payload: z.object({ players: z.record(z.string(), z.number()) }) }),
+  z.object({ type: z.literal('error'), payload: z.object({ message: z.string(), code: errorCodeSchema, requestId: z.string().optional() }) }),
+]).and(z.object({ v: z.number().int().optional() }));
+
+// Database tables (see server/storage.ts). Nested game data is stored as jsonb
+// in the same shape as the in-memory GameRoom.
+export const rooms = pgTable("rooms", {
+  code: varchar("code", { length: 6 }).primaryKey(),
+  gameMode: text("game_mode").$type<GameMode>().notNull(),
+  hostId: text("host_id"),
+  locked: boolean("locked").notNull().default(false),
+  rules: jsonb("rules").$type<RoomRules>().notNull(),
+  diceMode: text("dice_mode").$type<DiceMode>().notNull(),
+  diceAudit: jsonb("dice_audit").$type<DiceAudit>().notNull(),
+  turnTimer: jsonb("turn_timer").$type<TurnTimerSettings>().notNull(),
+  serverSeed: text("server_seed").notNull(),
+  gameState: jsonb("game_state").$type<GameState>().notNull(),
+  createdAt: timestamp("created_at").notNull(),
+  updatedAt: timestamp("updated_at").notNull(),
+});
+
+export const players = pgTable("players", {
+  id: text("id").primaryKey(),
+  roomCode: varchar("room_code", { length: 6 }).notNull().references(() => rooms.code, { onDelete: "cascade" }),
+  seat: integer("seat").notNull(),
+  name: text("name").notNull(),
+  color: text("color").$type<PlayerColor>(),
+  colors: jsonb("colors").$type<PlayerColor[]>().notNull().default([]),
+  ready: boolean("ready").notNull(),
+  bot: text("bot").$type<BotStrategy>(),
+}, (table) => [
+  index("players_room_code_idx").on(table.roomCode),
+]);
+
+export const sessions = pgTable("sessions", {
+  token: text("token").primaryKey(),
+  playerId: text("player_id").notNull(),
+});
+
+export const gameEvents = pgTable("game_events", {
+  id: serial("id").primaryKey(),
+  roomCode: varchar("room_code", { length: 6 }).notNull().references(() => rooms.code, { onDelete: "cascade" }),
+  seq: integer("seq").notNull(),
+  playerId: text("player_id"),
+  type: text("type").$type<GameEventType>().notNull(),
+  data: jsonb("data").$type<GameEventData>().notNull(),
+  createdAt: timestamp("created_at").notNull(),
+}, (table) => [
+  index("game_events_room_code_idx").on(table.roomCode),
+]);
+
+export const completedGames = pgTable("completed_games", {
+  id: serial("id").primaryKey(),
+  roomCode: varchar("room_code", { length: 6 }).notNull(),
+  gameMode: text("game_mode").$type<GameMode>().notNull(),
+  winner: text("winner").$type<PlayerColor>(),
+  players: jsonb("players").$type<Player[]>().notNull(),
+  rules: jsonb("rules").$type<RoomRules>().notNull(),
+  finalState: jsonb("final_state").$type<GameState>().notNull(),
+  diceMode: text("dice_mode").$type<DiceMode>(),
+  diceAudit: jsonb("dice_audit").$type<DiceAudit>(),
+  events: jsonb("events").$type<GameEvent[]>().notNull(),
+  createdAt: timestamp("created_at").notNull(), // When the room was created
+  finishedAt: timestamp("finished_at").notNull(),
+}, (table) => [
+  index("completed_games_room_code_idx").on(table.roomCode),
+]);